@@ -0,0 +1,486 @@
+import express, {NextFunction, Request, Response} from "express";
+import crypto from "crypto";
+import mongoose from "mongoose";
+import {autoApply, getNextScheduledRunAt, isRunInProgress, pauseScheduler, resumeScheduler, RUN_LOCK_NAME} from "./cron_job";
+import {IUser, NEGOTIATION_STATES, NegotiationState, UserModel, VacanciesModel} from "./models";
+import {RunModel} from "./run_ledger";
+import {getLeaseHolder} from "./run_lock";
+import {isSchedulerPaused} from "./scheduler_state";
+import {getQueueStats, JobModel, retryDeadJob} from "./job_queue";
+import {hhService} from "./providers";
+import {loadDiscardedEmployers, resolveEmployerRule} from "./dedup";
+import {getPlanNames, releaseUserSlot} from "./quota";
+import {redactSecrets} from "./secrets";
+import {notifyUser} from "./notifications";
+import {resolveSchedule, validateSchedule} from "./schedule";
+import {validateCoverLetterSettings} from "./cover_letter";
+import {getUserAnalytics} from "./analytics";
+import {logger} from "./logger";
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const requireAdminSecret = (req: Request, res: Response, next: NextFunction) => {
+    const secret = process.env.ADMIN_API_SECRET;
+    if (!secret) {
+        return res.status(503).json({message: 'Admin API is not configured'});
+    }
+
+    const header = req.headers.authorization || '';
+    const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    const expectedBuffer = Buffer.from(secret);
+    const providedBuffer = Buffer.from(provided);
+    if (providedBuffer.length !== expectedBuffer.length || !crypto.timingSafeEqual(providedBuffer, expectedBuffer)) {
+        return res.status(401).json({message: 'Unauthorized'});
+    }
+    next();
+};
+
+const asyncHandler = (handler: (req: Request, res: Response) => Promise<any>) =>
+    (req: Request, res: Response, next: NextFunction) => {
+        handler(req, res).catch(next);
+    };
+
+const parsePositiveInt = (value: any, fallback: number): number => {
+    const parsed = parseInt(value, 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Responses carry user and job data; anything that looks like a credential is masked on the way out.
+const redactResponses = (req: Request, res: Response, next: NextFunction) => {
+    const json = res.json.bind(res);
+    res.json = (body: any) => json(redactSecrets(body));
+    next();
+};
+
+export const adminRouter = express.Router();
+
+adminRouter.use(express.json());
+adminRouter.use(requireAdminSecret);
+adminRouter.use(redactResponses);
+
+adminRouter.post("/runs", asyncHandler(async (req, res) => {
+    const userId: string | undefined = req.body?.userId;
+    if (userId !== undefined && !mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({message: 'Invalid user id'});
+    }
+    if (userId && !(await UserModel.exists({_id: userId}))) {
+        return res.status(404).json({message: 'User not found'});
+    }
+    if (await isRunInProgress()) {
+        return res.status(409).json({message: 'A run is already in progress'});
+    }
+
+    autoApply({trigger: 'manual', userId}).catch(err => logger.error('Error during manual run', {userId, error: err}));
+    res.status(202).json({message: 'Run started', userId: userId || null});
+}));
+
+adminRouter.post("/job/pause", asyncHandler(async (req, res) => {
+    await pauseScheduler();
+    res.json({scheduled: false});
+}));
+
+adminRouter.post("/job/resume", asyncHandler(async (req, res) => {
+    await resumeScheduler();
+    res.json({scheduled: true, nextRunAt: await getNextScheduledRunAt()});
+}));
+
+adminRouter.get("/job/status", asyncHandler(async (req, res) => {
+    const [lastRun, lockHolder, queue, runInProgress, paused, nextRunAt] = await Promise.all([
+        RunModel.findOne({}).sort({startedAt: -1}).lean(),
+        getLeaseHolder(RUN_LOCK_NAME),
+        getQueueStats(),
+        isRunInProgress(),
+        isSchedulerPaused(RUN_LOCK_NAME),
+        getNextScheduledRunAt()
+    ]);
+    res.json({
+        scheduled: !paused,
+        nextRunAt: paused ? null : nextRunAt,
+        runInProgress,
+        lockHolder,
+        queue,
+        lastRun
+    });
+}));
+
+adminRouter.get("/queue/dead", asyncHandler(async (req, res) => {
+    const page = parsePositiveInt(req.query.page, 1);
+    const limit = Math.min(parsePositiveInt(req.query.limit, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const [items, total] = await Promise.all([
+        JobModel.find({status: 'dead'})
+            .sort({finishedAt: -1})
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean(),
+        JobModel.countDocuments({status: 'dead'})
+    ]);
+    res.json({items, total, page, limit});
+}));
+
+adminRouter.post("/queue/jobs/:jobId/retry", asyncHandler(async (req, res) => {
+    const {jobId} = req.params;
+    if (!mongoose.isValidObjectId(jobId)) {
+        return res.status(400).json({message: 'Invalid job id'});
+    }
+    const job = await retryDeadJob(jobId);
+    if (!job) {
+        return res.status(404).json({message: 'Dead job not found'});
+    }
+    res.json(job);
+}));
+
+adminRouter.get("/hh/metrics", (req, res) => {
+    res.json(hhService.getMetrics());
+});
+
+adminRouter.get("/users/:userId/applications", asyncHandler(async (req, res) => {
+    const {userId} = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({message: 'Invalid user id'});
+    }
+
+    const negotiationState = req.query.negotiationState;
+    if (negotiationState !== undefined && !NEGOTIATION_STATES.includes(negotiationState as NegotiationState)) {
+        return res.status(400).json({message: `"negotiationState" must be one of ${NEGOTIATION_STATES.join(', ')}`});
+    }
+
+    const filter: { [key: string]: any } = {user: userId};
+    if (negotiationState) filter.negotiationState = negotiationState;
+    const page = parsePositiveInt(req.query.page, 1);
+    const limit = Math.min(parsePositiveInt(req.query.limit, DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+    const [items, total] = await Promise.all([
+        VacanciesModel.find(filter)
+            .sort({_id: -1})
+            .skip((page - 1) * limit)
+            .limit(limit)
+            .lean(),
+        VacanciesModel.countDocuments(filter)
+    ]);
+
+    res.json({items, total, page, limit});
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_ANALYTICS_DAYS = 7;
+const MAX_ANALYTICS_DAYS = 366;
+
+const parseDate = (value: any): Date | null | undefined => {
+    if (value === undefined) return undefined;
+    const date = new Date(String(value));
+    return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Defaults to the last week, which is what the weekly progress view shows.
+adminRouter.get("/users/:userId/analytics", asyncHandler(async (req, res) => {
+    const {userId} = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({message: 'Invalid user id'});
+    }
+    const to = parseDate(req.query.to);
+    const from = parseDate(req.query.from);
+    if (to === null || from === null) {
+        return res.status(400).json({message: '"from" and "to" must be ISO dates'});
+    }
+    const range = {to: to || new Date(), from: from || new Date((to || new Date()).getTime() - DEFAULT_ANALYTICS_DAYS * DAY_MS)};
+    if (range.from >= range.to || range.to.getTime() - range.from.getTime() > MAX_ANALYTICS_DAYS * DAY_MS) {
+        return res.status(400).json({message: `"from" must be before "to" and the range at most ${MAX_ANALYTICS_DAYS} days`});
+    }
+    const positionId = req.query.positionId;
+    if (positionId !== undefined && !mongoose.isValidObjectId(positionId)) {
+        return res.status(400).json({message: 'Invalid position id'});
+    }
+
+    const user = await UserModel.findById(userId, {positions: 1}).lean();
+    if (!user) {
+        return res.status(404).json({message: 'User not found'});
+    }
+    const analytics = await getUserAnalytics(user as IUser, range, {
+        positionId: positionId as string | undefined,
+        topEmployers: Math.min(parsePositiveInt(req.query.top, 10), MAX_PAGE_SIZE)
+    });
+    res.json(analytics);
+}));
+
+adminRouter.put("/users/:userId/review-mode", asyncHandler(async (req, res) => {
+    const {userId} = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({message: 'Invalid user id'});
+    }
+    if (typeof req.body?.enabled !== 'boolean') {
+        return res.status(400).json({message: '"enabled" must be a boolean'});
+    }
+
+    const user = await UserModel.findByIdAndUpdate(userId, {$set: {reviewBeforeSend: req.body.enabled}}, {new: true});
+    if (!user) {
+        return res.status(404).json({message: 'User not found'});
+    }
+    res.json({reviewBeforeSend: user.reviewBeforeSend});
+}));
+
+const isOptionalLimit = (value: any) => value === undefined || (Number.isInteger(value) && value >= 0);
+
+adminRouter.put("/users/:userId/limits", asyncHandler(async (req, res) => {
+    const {userId} = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({message: 'Invalid user id'});
+    }
+    const {plan, daily, weekly} = req.body || {};
+    if ((plan !== undefined && plan !== null && typeof plan !== 'string') || !isOptionalLimit(daily) || !isOptionalLimit(weekly)) {
+        return res.status(400).json({message: '"plan" must be a string and limits non-negative integers'});
+    }
+    const plans = getPlanNames();
+    if (plan && !plans.includes(plan)) {
+        return res.status(400).json({message: `"plan" must be one of ${plans.join(', ')}, or null to clear it`});
+    }
+
+    // An omitted plan is left as is; null or an empty string clears it.
+    const applicationLimits = {daily, weekly};
+    const update = plan
+        ? {$set: {plan, applicationLimits}}
+        : plan === undefined ? {$set: {applicationLimits}} : {$set: {applicationLimits}, $unset: {plan: 1}};
+    const user = await UserModel.findByIdAndUpdate(userId, update, {new: true});
+    if (!user) {
+        return res.status(404).json({message: 'User not found'});
+    }
+    res.json({plan: user.plan || null, applicationLimits: user.applicationLimits});
+}));
+
+adminRouter.put("/users/:userId/employer-rule", asyncHandler(async (req, res) => {
+    const {userId} = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({message: 'Invalid user id'});
+    }
+    const {cooldownDays, maxApplications} = req.body || {};
+    if (!isOptionalLimit(cooldownDays) || !isOptionalLimit(maxApplications) || maxApplications === 0) {
+        return res.status(400).json({message: '"cooldownDays" must be a non-negative integer and "maxApplications" a positive integer'});
+    }
+
+    const user = await UserModel.findByIdAndUpdate(
+        userId,
+        {$set: {employerRule: {cooldownDays, maxApplications}}},
+        {new: true}
+    );
+    if (!user) {
+        return res.status(404).json({message: 'User not found'});
+    }
+    res.json({employerRule: resolveEmployerRule(user)});
+}));
+
+const MAX_EXCLUSION_ENTRIES = 500;
+
+const isStringList = (value: any) => value === undefined
+    || (Array.isArray(value) && value.length <= MAX_EXCLUSION_ENTRIES && value.every(v => typeof v === 'string' && v.trim()));
+
+adminRouter.get("/users/:userId/exclusions", asyncHandler(async (req, res) => {
+    const {userId} = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({message: 'Invalid user id'});
+    }
+    const user = await UserModel.findById(userId, {exclusionRules: 1}).lean();
+    if (!user) {
+        return res.status(404).json({message: 'User not found'});
+    }
+    const discarded = await loadDiscardedEmployers(user as IUser);
+    res.json({
+        exclusionRules: user.exclusionRules || {},
+        discardedEmployers: {ids: [...discarded.ids], names: [...discarded.names]}
+    });
+}));
+
+adminRouter.put("/users/:userId/exclusions", asyncHandler(async (req, res) => {
+    const {userId} = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({message: 'Invalid user id'});
+    }
+    const {blockedEmployers, allowedEmployers, allowedOnly, excludedKeywords, learnFromDiscards} = req.body || {};
+    if (!isStringList(blockedEmployers) || !isStringList(allowedEmployers) || !isStringList(excludedKeywords)) {
+        return res.status(400).json({message: `Employer and keyword lists must be arrays of at most ${MAX_EXCLUSION_ENTRIES} non-empty strings`});
+    }
+    if ((allowedOnly !== undefined && typeof allowedOnly !== 'boolean') || (learnFromDiscards !== undefined && typeof learnFromDiscards !== 'boolean')) {
+        return res.status(400).json({message: '"allowedOnly" and "learnFromDiscards" must be booleans'});
+    }
+    if (allowedOnly && !allowedEmployers?.length) {
+        return res.status(400).json({message: '"allowedOnly" needs at least one allowed employer'});
+    }
+
+    const trim = (list?: string[]) => list?.map(entry => entry.trim());
+    const user = await UserModel.findByIdAndUpdate(
+        userId,
+        {
+            $set: {
+                exclusionRules: {
+                    blockedEmployers: trim(blockedEmployers),
+                    allowedEmployers: trim(allowedEmployers),
+                    allowedOnly,
+                    excludedKeywords: trim(excludedKeywords),
+                    learnFromDiscards
+                }
+            }
+        },
+        {new: true}
+    );
+    if (!user) {
+        return res.status(404).json({message: 'User not found'});
+    }
+    res.json({exclusionRules: user.exclusionRules});
+}));
+
+adminRouter.put("/users/:userId/schedule", asyncHandler(async (req, res) => {
+    const {userId} = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({message: 'Invalid user id'});
+    }
+    const error = validateSchedule(req.body);
+    if (error) {
+        return res.status(400).json({message: error});
+    }
+    const {enabled, timezone, days, times} = req.body;
+
+    // The update hook on UserSchema recomputes nextRunAt, so the scheduler picks the change up on its next tick.
+    const user = await UserModel.findByIdAndUpdate(
+        userId,
+        {$set: {schedule: {enabled, timezone, days, times}}},
+        {new: true}
+    );
+    if (!user) {
+        return res.status(404).json({message: 'User not found'});
+    }
+    res.json({schedule: resolveSchedule(user.schedule), nextRunAt: user.nextRunAt || null});
+}));
+
+adminRouter.put("/users/:userId/cover-letter", asyncHandler(async (req, res) => {
+    const {userId} = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({message: 'Invalid user id'});
+    }
+    const error = validateCoverLetterSettings(req.body);
+    if (error) {
+        return res.status(400).json({message: error});
+    }
+    // Null or missing fields fall back to the defaults for the vacancy's language.
+    const {template, length, tone, intro, signature, language} = req.body;
+    const user = await UserModel.findByIdAndUpdate(
+        userId,
+        {
+            $set: {
+                coverLetterSettings: {
+                    template: template || undefined,
+                    length,
+                    tone,
+                    intro: intro ?? undefined,
+                    signature: signature ?? undefined,
+                    language: language || undefined
+                }
+            }
+        },
+        {new: true}
+    );
+    if (!user) {
+        return res.status(404).json({message: 'User not found'});
+    }
+    res.json({coverLetterSettings: user.coverLetterSettings});
+}));
+
+const NOTIFICATION_FLAGS =['email', 'telegram', 'runDigest', 'invitationAlerts'] as const;
+
+adminRouter.put("/users/:userId/notifications", asyncHandler(async (req, res) => {
+    const {userId} = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({message: 'Invalid user id'});
+    }
+    const body = req.body || {};
+    const update: { [key: string]: any } = {};
+    for (const flag of NOTIFICATION_FLAGS) {
+        if (body[flag] === undefined) continue;
+        if (typeof body[flag] !== 'boolean') {
+            return res.status(400).json({message: `"${flag}" must be a boolean`});
+        }
+        update[`notificationPreferences.${flag}`] = body[flag];
+    }
+    if (body.telegramChatId !== undefined) {
+        if (body.telegramChatId !== null && typeof body.telegramChatId !== 'string') {
+            return res.status(400).json({message: '"telegramChatId" must be a string or null'});
+        }
+        update['notificationPreferences.telegramChatId'] = body.telegramChatId || '';
+    }
+
+    const user = await UserModel.findByIdAndUpdate(userId, {$set: update}, {new: true});
+    if (!user) {
+        return res.status(404).json({message: 'User not found'});
+    }
+    res.json({notificationPreferences: user.notificationPreferences});
+}));
+
+adminRouter.post("/users/:userId/notifications/test", asyncHandler(async (req, res) => {
+    const {userId} = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({message: 'Invalid user id'});
+    }
+    const user = await UserModel.findById(userId).lean();
+    if (!user) {
+        return res.status(404).json({message: 'User not found'});
+    }
+
+    const results = await notifyUser(user as IUser, {
+        kind: 'test',
+        subject: 'Проверка уведомлений',
+        text: 'Уведомления автоотклика настроены.',
+    });
+    res.json({results});
+}));
+
+adminRouter.get("/users/:userId/drafts",asyncHandler(async (req, res) => {
+    const {userId} = req.params;
+    if (!mongoose.isValidObjectId(userId)) {
+        return res.status(400).json({message: 'Invalid user id'});
+    }
+
+    const drafts = await VacanciesModel.find({user: userId, status: 'pending_review'}).sort({_id: -1}).lean();
+    res.json({items: drafts});
+}));
+
+const updateDraft = async (req: Request, res: Response, update: { [key: string]: any }) => {
+    const {userId, draftId} = req.params;
+    if (!mongoose.isValidObjectId(userId) || !mongoose.isValidObjectId(draftId)) {
+        res.status(400).json({message: 'Invalid id'});
+        return null;
+    }
+    const coverLetter = req.body?.cover_letter;
+    if (coverLetter !== undefined) {
+        if (typeof coverLetter !== 'string' || !coverLetter.trim()) {
+            res.status(400).json({message: '"cover_letter" must be a non-empty string'});
+            return null;
+        }
+        update.cover_letter = coverLetter.trim();
+    }
+
+    const draft = await VacanciesModel.findOneAndUpdate(
+        {_id: draftId, user: userId, status: 'pending_review'},
+        {$set: update},
+        {new: true}
+    ).lean();
+    if (!draft) {
+        res.status(404).json({message: 'Draft not found or already reviewed'});
+        return null;
+    }
+    res.json(draft);
+    return draft;
+};
+
+adminRouter.patch("/users/:userId/drafts/:draftId", asyncHandler(async (req, res) => {
+    if (req.body?.cover_letter === undefined) {
+        return res.status(400).json({message: '"cover_letter" is required'});
+    }
+    await updateDraft(req, res, {});
+}));
+
+adminRouter.post("/users/:userId/drafts/:draftId/approve", asyncHandler(async (req, res) => {
+    await updateDraft(req, res, {status: 'approved', reviewedAt: new Date()});
+}));
+
+adminRouter.post("/users/:userId/drafts/:draftId/reject", asyncHandler(async (req, res) => {
+    const draft = await updateDraft(req, res, {status: 'rejected', reviewedAt: new Date()});
+    // A rejected draft is never sent, so its slot goes back to the user's daily and weekly caps.
+    if (draft?.createdAt) await releaseUserSlot(draft.user, draft.createdAt);
+}));
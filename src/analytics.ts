@@ -0,0 +1,217 @@
+import {IUser, VacanciesModel} from "./models";
+import {ApplicationAttemptModel} from "./run_ledger";
+import {LLMUsageModel} from "./llm_usage";
+
+const DEFAULT_TOP_EMPLOYERS = 10;
+// Rows from before positions were tracked on vacancies and attempts are grouped here.
+const UNKNOWN_POSITION = 'unknown';
+
+export interface DateRange {
+    from: Date;
+    to: Date;
+}
+
+export interface FunnelCounts {
+    /** Distinct vacancies the runs looked at. */
+    found: number;
+    /** Distinct vacancies dropped by filters, exclusions, the match score or the suitability check. */
+    filtered: number;
+    applied: number;
+    viewed: number;
+    invited: number;
+    rejected: number;
+}
+
+export interface PositionAnalytics extends FunnelCounts {
+    positionId: string;
+    position: string;
+    /** The position's current status, or null when it has since been removed. */
+    status: string | null;
+    llmCostUsd: number;
+    llmCostPerApplicationUsd: number | null;
+}
+
+export interface SalaryStats {
+    currency: string | null;
+    count: number;
+    min: number;
+    p25: number;
+    median: number;
+    p75: number;
+    max: number;
+    average: number;
+}
+
+export interface EmployerStats {
+    employer: string;
+    applied: number;
+    invited: number;
+    rejected: number;
+}
+
+export interface UserAnalytics {
+    range: DateRange;
+    totals: FunnelCounts & { llmCostUsd: number; llmCostPerApplicationUsd: number | null };
+    positions: PositionAnalytics[];
+    salary: { withoutSalary: number; byCurrency: SalaryStats[] };
+    topEmployers: EmployerStats[];
+}
+
+const emptyFunnel = (): FunnelCounts => ({found: 0, filtered: 0, applied: 0, viewed: 0, invited: 0, rejected: 0});
+
+const positionKey = (positionId?: string | null) => positionId || UNKNOWN_POSITION;
+
+const percentile = (sorted: number[], p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+const costPerApplication = (cost: number, applied: number) => applied > 0 ? round(cost / applied) : null;
+
+/**
+ * The application funnel of one user over a date range, per position and in
+ * total. Found and filtered come from the run ledger and count a vacancy once
+ * however many runs saw it. Applied counts applications sent in the range;
+ * viewed, invited and rejected are where those applications stand now, so a
+ * recent range fills in as employers respond.
+ */
+export const getUserAnalytics = async (
+    user: IUser,
+    range: DateRange,
+    options: { positionId?: string; topEmployers?: number } = {}
+): Promise<UserAnalytics> => {
+    const userId = String(user._id);
+    const positionFilter = options.positionId ? {position_id: options.positionId} : {};
+    const created = {$gte: range.from, $lt: range.to};
+
+    const [attempts, applications, llmUsage] = await Promise.all([
+        ApplicationAttemptModel.aggregate([
+            {$match: {user: userId, createdAt: created, ...positionFilter}},
+            {
+                $group: {
+                    _id: {position: '$position_id', vacancy: '$vacancy_id', source: '$source'},
+                    positionText: {$first: '$position'},
+                    outcomes: {$addToSet: '$outcome'}
+                }
+            },
+            {
+                $group: {
+                    _id: '$_id.position',
+                    positionText: {$first: '$positionText'},
+                    found: {$sum: 1},
+                    filtered: {$sum: {$cond: [{$in: ['filtered', '$outcomes']}, 1, 0]}}
+                }
+            }
+        ]),
+        VacanciesModel.find(
+            {user: userId, status: 'applied', appliedAt: created, ...positionFilter},
+            {position_id: 1, negotiationState: 1, employer_id: 1, employer_name: 1, salary: 1, salary_currency: 1}
+        ).lean(),
+        LLMUsageModel.aggregate([
+            {$match: {user: userId, createdAt: created, ...positionFilter}},
+            {$group: {_id: '$position_id', costUsd: {$sum: '$costUsd'}}}
+        ]),
+    ]);
+
+    const userPositions = new Map((user.positions || []).map(p => [String(p._id), p]));
+    const funnels = new Map<string, FunnelCounts & { position?: string }>();
+    const funnelFor = (key: string) => {
+        let funnel = funnels.get(key);
+        if (!funnel) {
+            funnel = emptyFunnel();
+            funnels.set(key, funnel);
+        }
+        return funnel;
+    };
+
+    attempts.forEach((row: any) => {
+        const funnel = funnelFor(positionKey(row._id));
+        funnel.found += row.found;
+        funnel.filtered += row.filtered;
+        funnel.position = funnel.position || row.positionText;
+    });
+    applications.forEach(application => {
+        const funnel = funnelFor(positionKey(application.position_id));
+        funnel.applied++;
+        // An invitation or a discard means the employer opened the application first.
+        if (application.negotiationState && application.negotiationState !== 'response') funnel.viewed++;
+        if (application.negotiationState === 'invitation') funnel.invited++;
+        if (application.negotiationState === 'discard') funnel.rejected++;
+    });
+    const costs = new Map<string, number>(llmUsage.map((row: any) => [positionKey(row._id), row.costUsd]));
+    costs.forEach((_, key) => funnelFor(key));
+
+    const positions: PositionAnalytics[] = Array.from(funnels.entries()).map(([key, {position, ...funnel}]) => {
+        const llmCostUsd = round(costs.get(key) || 0);
+        return {
+            positionId: key,
+            position: userPositions.get(key)?.position || (key === UNKNOWN_POSITION ? 'Unknown position' : position || key),
+            status: userPositions.get(key)?.status || null,
+            ...funnel,
+            llmCostUsd,
+            llmCostPerApplicationUsd: costPerApplication(llmCostUsd, funnel.applied),
+        };
+    });
+
+    const totals = positions.reduce((sum, p) => {
+        (Object.keys(sum) as (keyof FunnelCounts)[]).forEach(key => sum[key] += p[key]);
+        return sum;
+    }, emptyFunnel());
+    const totalCost = round(positions.reduce((sum, p) => sum + p.llmCostUsd, 0));
+
+    return {
+        range,
+        totals: {...totals, llmCostUsd: totalCost, llmCostPerApplicationUsd: costPerApplication(totalCost, totals.applied)},
+        positions,
+        salary: salaryDistribution(applications),
+        topEmployers: topEmployers(applications, options.topEmployers ?? DEFAULT_TOP_EMPLOYERS),
+    };
+};
+
+/** Salaries of applied vacancies per currency. Vacancies without a salary are only counted. */
+const salaryDistribution = (applications: { salary?: number; salary_currency?: string }[]) => {
+    const byCurrency = new Map<string | null, number[]>();
+    let withoutSalary = 0;
+    applications.forEach(application => {
+        if (!application.salary) {
+            withoutSalary++;
+            return;
+        }
+        const currency = application.salary_currency || null;
+        const salaries = byCurrency.get(currency) || [];
+        salaries.push(application.salary);
+        byCurrency.set(currency, salaries);
+    });
+
+    const stats: SalaryStats[] = Array.from(byCurrency.entries()).map(([currency, salaries]) => {
+        const sorted = salaries.sort((a, b) => a - b);
+        return {
+            currency,
+            count: sorted.length,
+            min: sorted[0],
+            p25: percentile(sorted, 0.25),
+            median: percentile(sorted, 0.5),
+            p75: percentile(sorted, 0.75),
+            max: sorted[sorted.length - 1],
+            average: Math.round(sorted.reduce((sum, s) => sum + s, 0) / sorted.length),
+        };
+    });
+    return {withoutSalary, byCurrency: stats.sort((a, b) => b.count - a.count)};
+};
+
+const topEmployers = (applications: { employer_id?: string; employer_name: string; negotiationState?: string }[], limit: number): EmployerStats[] => {
+    const employers = new Map<string, EmployerStats>();
+    applications.forEach(application => {
+        const key = application.employer_id || application.employer_name;
+        let stats = employers.get(key);
+        if (!stats) {
+            stats = {employer: application.employer_name, applied: 0, invited: 0, rejected: 0};
+            employers.set(key, stats);
+        }
+        stats.applied++;
+        if (application.negotiationState === 'invitation') stats.invited++;
+        if (application.negotiationState === 'discard') stats.rejected++;
+    });
+    return Array.from(employers.values())
+        .sort((a, b) => b.applied - a.applied || b.invited - a.invited)
+        .slice(0, limit);
+};
@@ -0,0 +1,212 @@
+import {z} from "zod";
+import {completeStructured} from "./llm";
+import {
+    COVER_LETTER_LANGUAGES,
+    COVER_LETTER_LENGTHS,
+    COVER_LETTER_TONES,
+    CoverLetterLanguage,
+    CoverLetterLength,
+    CoverLetterTone,
+    ICoverLetterSettings
+} from "./models";
+import {ProviderVacancy} from "./providers";
+import {logger} from "./logger";
+
+const MAX_TEMPLATE_LENGTH = 2000;
+// One retry with the unsupported skills named; a second miss drops the letter rather than sending a false claim.
+const MAX_GENERATION_ATTEMPTS = 2;
+
+const DEFAULT_TEMPLATE = '{{intro}}\n\n{{body}}\n\n{{signature}}';
+const PLACEHOLDERS = ['firstName', 'lastName', 'position', 'employer', 'intro', 'body', 'signature'];
+
+const WORD_RANGES: { [length in CoverLetterLength]: string } = {
+    short: '40-60',
+    medium: '80-120',
+    long: '150-200',
+};
+
+const TONES: { [tone in CoverLetterTone]: string } = {
+    formal: 'formal and polite, without clichés',
+    friendly: 'warm and conversational, still professional',
+    confident: 'confident and direct, focused on results',
+};
+
+const LANGUAGES: { [language in CoverLetterLanguage]: { name: string; intro: string; signature: string } } = {
+    ru: {name: 'Russian', intro: 'Здравствуйте!', signature: 'С уважением,\n{{firstName}} {{lastName}}'},
+    kk: {name: 'Kazakh', intro: 'Сәлеметсіз бе!', signature: 'Құрметпен,\n{{firstName}} {{lastName}}'},
+    en: {name: 'English', intro: 'Hello,', signature: 'Best regards,\n{{firstName}} {{lastName}}'},
+};
+
+const KAZAKH_LETTERS = /[әғқңөұүһі]/gi;
+const CYRILLIC_LETTERS = /[а-яё]/gi;
+const LATIN_LETTERS = /[a-z]/gi;
+
+const countMatches = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+const stripHighlights = (value?: string | null) => (value || '').replace(/<\/?highlighttext>/g, '');
+
+/**
+ * Guesses the vacancy language from its letters. Russian postings are full of
+ * English tool names, so Cyrillic wins unless Latin clearly dominates, and a
+ * few Kazakh-only letters are enough to tell Kazakh from Russian.
+ */
+export const detectLanguage = (text: string): CoverLetterLanguage => {
+    const kazakh = countMatches(text, KAZAKH_LETTERS);
+    const cyrillic = countMatches(text, CYRILLIC_LETTERS) + kazakh;
+    const latin = countMatches(text, LATIN_LETTERS);
+    if (cyrillic * 2 < latin) return 'en';
+    if (kazakh >= 3) return 'kk';
+    return cyrillic > 0 ? 'ru' : 'en';
+};
+
+export const renderTemplate = (template: string, values: { [placeholder: string]: string }): string => {
+    return template
+        .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name) => values[name] ?? '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+};
+
+export const validateCoverLetterSettings = (settings: any): string | null => {
+    if (!settings || typeof settings !== 'object') return 'cover letter settings must be an object';
+    const {template, length, tone, intro, signature, language} = settings;
+    if (template !== undefined && template !== null) {
+        if (typeof template !== 'string' || template.length > MAX_TEMPLATE_LENGTH) {
+            return `"template" must be a string of at most ${MAX_TEMPLATE_LENGTH} characters`;
+        }
+        if (!/\{\{\s*body\s*\}\}/.test(template)) return '"template" must contain the {{body}} placeholder';
+        const unknown = [...template.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map(m => m[1]).find(name => !PLACEHOLDERS.includes(name));
+        if (unknown) return `Unknown placeholder {{${unknown}}}; use ${PLACEHOLDERS.map(p => `{{${p}}}`).join(', ')}`;
+    }
+    if (length !== undefined && !COVER_LETTER_LENGTHS.includes(length)) return `"length" must be one of ${COVER_LETTER_LENGTHS.join(', ')}`;
+    if (tone !== undefined && !COVER_LETTER_TONES.includes(tone)) return `"tone" must be one of ${COVER_LETTER_TONES.join(', ')}`;
+    if (language !== undefined && language !== null && !COVER_LETTER_LANGUAGES.includes(language)) {
+        return `"language" must be one of ${COVER_LETTER_LANGUAGES.join(', ')} or null to follow the vacancy`;
+    }
+    for (const [name, value] of Object.entries({intro, signature})) {
+        if (value !== undefined && value !== null && (typeof value !== 'string' || value.length > MAX_TEMPLATE_LENGTH)) {
+            return `"${name}" must be a string of at most ${MAX_TEMPLATE_LENGTH} characters`;
+        }
+    }
+    return null;
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/ё/g, 'е').replace(/\s+/g, ' ').trim();
+
+/** Skills the letter claims that do not appear anywhere in the resume text. */
+export const findUnsupportedSkills = (skills: string[], resumeText: string): string[] => {
+    const resume = normalize(resumeText);
+    return skills.filter(skill => normalize(skill) && !resume.includes(normalize(skill)));
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-term match, so "Go" is not found in "good" and "C" not in "CSS".
+const mentions = (text: string, term: string) =>
+    new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(normalize(term))}(?![\\p{L}\\p{N}])`, 'u').test(normalize(text));
+
+const LATIN_TERM = /[a-z][a-z0-9.#+-]*[a-z0-9#+]/gi;
+// In English postings every word is Latin, so only words shaped like tool names count: C#, Node.js, ES6, SQL, GraphQL.
+const TOOL_SHAPED = /[.#+\d]|^[A-Z]{2,}$|^[A-Za-z][a-z]*[A-Z]/;
+
+/**
+ * Skills and tools the vacancy asks for: its key skills, plus the Latin terms
+ * of its requirements, which in Russian and Kazakh postings are the tool names.
+ */
+export const vacancyTerms = (vacancy: ProviderVacancy): string[] => {
+    const requirement = stripHighlights(vacancy.snippet?.requirement);
+    // Any Cyrillic means the Latin words are tool names, however many of them there are.
+    const english = countMatches(requirement, CYRILLIC_LETTERS) === 0;
+    const terms = [
+        ...(vacancy.key_skills || []).map((skill: any) => String(skill?.name || '')),
+        ...(requirement.match(LATIN_TERM) || []).filter(term => !english || TOOL_SHAPED.test(term)),
+    ];
+    const unique = new Map(terms.filter(term => normalize(term)).map(term => [normalize(term), term]));
+    return [...unique.values()];
+};
+
+/**
+ * The skills a generated letter claims: the ones the model listed, plus any of
+ * the vacancy's terms its body actually mentions, so an unlisted claim is still checked.
+ */
+export const claimedSkills = (body: string, reportedSkills: string[], vacancy: ProviderVacancy): string[] => {
+    const claimed = [...reportedSkills, ...vacancyTerms(vacancy).filter(term => mentions(body, term))];
+    return [...new Map(claimed.map(skill => [normalize(skill), skill])).values()];
+};
+
+const buildPrompt = (user: any, vacancy: ProviderVacancy, resume: string, language: CoverLetterLanguage, settings: ICoverLetterSettings, avoidSkills: string[]) => {
+    const length = settings.length || 'short';
+    const tone = settings.tone || 'formal';
+    const grounding = resume
+        ? `Only mention skills and experience that are stated in the resume below. List every skill, tool or technology the text mentions in "skills", spelled exactly as in the resume.
+    Resume: ${resume}`
+        : `There is no resume, so do not claim any specific skills, tools or years of experience; leave "skills" empty.`;
+    const avoid = avoidSkills.length > 0
+        ? `\n    The previous draft claimed skills the resume does not have: ${avoidSkills.join(', ')}. Do not mention them.`
+        : '';
+    return `
+    Write the main part of a cover letter for the vacancy below on behalf of ${user.firstName} ${user.lastName}.
+    Vacancy: ${vacancy.name} at ${vacancy.employer?.name}
+    Requirements: ${stripHighlights(vacancy.snippet?.requirement)}
+    Responsibilities: ${stripHighlights(vacancy.snippet?.responsibility)}
+    Write in ${LANGUAGES[language].name}, ${WORD_RANGES[length]} words, in a ${TONES[tone]} tone.
+    Do not add a greeting or a signature, they are added separately. Do not invent facts and do not copy the vacancy text.
+    ${grounding}${avoid}
+    Return JSON: {"body": "string", "skills": ["string"]}
+  `;
+};
+
+/**
+ * Writes a cover letter from the user's template and settings in the
+ * vacancy's language. Letters claiming skills that are missing from the
+ * resume, whether listed by the model or found in the body, are regenerated
+ * once and then dropped. Returns null when no
+ * acceptable letter could be produced.
+ */
+export const generateCoverLetter = async (user: any, vacancy: ProviderVacancy, resume: string = ''): Promise<string | null> => {
+    const settings: ICoverLetterSettings = user.coverLetterSettings || {};
+    const language = settings.language || detectLanguage([
+        vacancy.name,
+        stripHighlights(vacancy.snippet?.requirement),
+        stripHighlights(vacancy.snippet?.responsibility)
+    ].join(' '));
+
+    let avoidSkills: string[] = [];
+    let body: string | undefined;
+    try {
+        for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS && !body; attempt++) {
+            const result = await completeStructured({
+                task: 'coverLetter',
+                prompt: buildPrompt(user, vacancy, resume, language, settings, avoidSkills),
+                schema: z.object({
+                    body: z.string().trim().min(1),
+                    skills: z.array(z.string()).default([])
+                })
+            });
+            const unsupported = resume ? findUnsupportedSkills(claimedSkills(result.body, result.skills || [], vacancy), resume) : [];
+            if (unsupported.length === 0) {
+                body = result.body;
+            } else {
+                logger.warn('Cover letter claims skills missing from the resume', {vacancyId: vacancy.id, skills: unsupported});
+                avoidSkills = [...new Set([...avoidSkills, ...unsupported])];
+            }
+        }
+    } catch (error) {
+        logger.error('Error generating cover letter', {vacancyId: vacancy.id, error});
+        return null;
+    }
+    if (!body) return null;
+
+    const values = {
+        firstName: user.firstName || '',
+        lastName: user.lastName || '',
+        position: vacancy.name,
+        employer: vacancy.employer?.name || '',
+    };
+    const defaults = LANGUAGES[language];
+    return renderTemplate(settings.template || DEFAULT_TEMPLATE, {
+        ...values,
+        intro: renderTemplate(settings.intro ?? defaults.intro, values),
+        signature: renderTemplate(settings.signature ?? defaults.signature, values),
+        body,
+    });
+};
@@ -1,597 +1,579 @@
 import {CronJob} from 'cron';
-import {queue} from 'async';
-import {WebPDFLoader} from "@langchain/community/document_loaders/web/pdf";
-import axios from "axios";
-import mongoose, {Schema, Document, Model} from 'mongoose';
-import OpenAI from "openai";
+import mongoose from 'mongoose';
 import dotenv from "dotenv";
-import qs from 'qs';
+import {z} from "zod";
+import {completeStructured} from "./llm";
+import {IPosition, IPositionFilters, UserModel, VacanciesModel, VacancyStatus} from "./models";
+import {getProvidersForUser, ProviderVacancy, VacancyProvider} from "./providers";
+import {AttemptOutcome, finishRun, recordAttempt, recordSkippedRun, recordUserSkip, recordUserSkips, RunModel, startRun} from "./run_ledger";
+import {enqueueJob, enqueueJobs, hasActiveJobs, IJob, JobModel, QueueWorker} from "./job_queue";
+import {acquireLease, getLeaseHolder, instanceId} from "./run_lock";
+import {isSchedulerPaused, setSchedulerPaused} from "./scheduler_state";
+import {matchesExclusionRules, matchesPositionFilters, withSalaryConstraint} from "./vacancy_filters";
+import {ensurePositionKeyword} from "./position_keywords";
+import {PositionQuota, UserQuota} from "./quota";
+import {checkEmployerRule, claimVacancy, DiscardedEmployers, isAlreadyClaimed, loadDiscardedEmployers} from "./dedup";
+import {sendRunDigests} from "./notifications";
+import {MatchScore, MIN_MATCH_SCORE, scoreVacancies} from "./match_scoring";
+import {generateCoverLetter} from "./cover_letter";
+import {DEFAULT_TIMEZONE, dueUsersFilter, nextScheduledRun} from "./schedule";
+import {logger, withLogContext} from "./logger";
 
 dotenv.config();
 
-export const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY as string
-})
-
-interface IPosition extends Document {
-    position: string;
-    status: string;
-    date: Date;
+interface SuitabilityResult {
+    isSuitable: boolean;
+    reason: string;
 }
 
-
-interface IUser extends Document {
-    firstName: string;
-    lastName: string;
-    email: string;
-    password?: string;
-    positions?: IPosition[];
-    profileImage: string
-    isVerified?: boolean;
-    isHr?: boolean;
-    linkedinId?: string;
-    hasHHAccount?: boolean;
-    hhAccessToken?: string;
-    hhRefreshToken?: string;
-
-    hasLinkedinAccount?: boolean;
-    linkedinAccessToken?: string;
-    linkedinRefreshToken?: string;
-
-    only_with_salary?: boolean;
-
-    createdAt?: Date;
-    updatedAt?: Date;
-
-    comparePassword(candidatePassword: string): Promise<boolean>;
-}
-
-const PositionSchema: Schema<IPosition> = new mongoose.Schema<IPosition>({
-    position: {type: String, required: true},
-    status: {type: String, default: 'Active'},
-    date: {type: Date, required: true, default: Date.now},
-});
-
-const UserSchema: Schema<IUser> = new mongoose.Schema<IUser>(
-    {
-        email: {
-            type: String,
-            required: true,
-            unique: true,
-            match: [/^\S+@\S+\.\S+$/, 'Please use a valid email address.']
-        },
-        firstName: {type: String, required: true},
-        lastName: {type: String, required: true},
-        password: {type: String},
-        profileImage: {type: String},
-        positions: {type: [PositionSchema], default: []},
-        hasHHAccount: {type: Boolean, default: false},
-        hhAccessToken: {type: String, default: ''},
-        hhRefreshToken: {type: String, default: ''},
-        hasLinkedinAccount: {type: Boolean, default: false},
-        linkedinId: {type: String, default: ''},
-        linkedinAccessToken: {type: String, default: ''},
-        linkedinRefreshToken: {type: String, default: ''},
-        only_with_salary: {type: Boolean, default: false},
-        isVerified: {type: Boolean, default: false},
-        isHr: {type: Boolean, default: false}
-    },
-    {
-        timestamps: true,
-    }
-);
-
-const UserModel: Model<IUser> = mongoose.model<IUser>('User', UserSchema);
-
-export interface IVacancy extends Document {
-    vacancy_id: string;
-    job_name: string;
-    employer_name: string;
-    salary: number;
-    employer_logo: string;
-    responsibility: string;
-    requirement: string;
-    address: string;
-    url: string;
-    user: string;
-    cover_letter: string;
-    isHeadHunterVacancy: boolean;
-    isOtherSiteVacancy: boolean;
+const isSuitableVacancy = async (position: string, vacancy: any): Promise<SuitabilityResult> => {
+    const vacancyDetails = `
+    Vacancy Title: ${vacancy.name}, Vacancy Responsibility: ${vacancy.snippet.responsibility}, Vacancy Requirements: ${vacancy.snippet.requirement}.
+    Salary: ${vacancy.salary?.from} to ${vacancy.salary?.to} ${vacancy.salary?.currency}.
+  `;
+    const PROMPT = `Analyze if the vacancy is suitable for the user's request. 
+    User's requested position: ${position} \n Vacancy Details: ${vacancyDetails} \n
+    Return JSON in this format: 
+{
+"isSuitable": boolean,
+"reason": "string"
 }
+    This format is required
+    WARNING: Vacancy should be max suitable and if not suitable is suitable is false`;
 
-const VacancySchema: Schema = new Schema({
-    vacancy_id: {type: String, required: true},
-    job_name: {type: String, required: true},
-    employer_name: {type: String, required: true},
-    salary: {type: Number},
-    employer_logo: {type: String},
-    responsibility: {type: String},
-    requirement: {type: String, required: true},
-    address: {type: String},
-    url: {type: String, required: true},
-    user: {type: String, ref: 'User', required: true},
-    cover_letter: {type: String, required: true},
-    isHeadHunterVacancy: {type: Boolean, default: false},
-    isOtherSiteVacancy: {type: Boolean, default: false}
-});
-
-const VacanciesModel = mongoose.model<IVacancy>('Vacancy', VacancySchema);
-
-
-async function loadPDF(url: string, token?: string) {
-    if (!token) {
-        const response = await fetch(url);
-        const data = await response.blob();
-        const loader = new WebPDFLoader(data);
-        const pdfData = await loader.load();
-        return pdfData.map(page => JSON.stringify(page)).join(' ');
-    }
-    const response = await fetch(url, {headers: {authorization: `Bearer ${token}`}});
-    const data = await response.blob();
-    const loader = new WebPDFLoader(data);
+    return completeStructured({
+        task: 'suitability',
+        prompt: PROMPT,
+        schema: z.object({
+            isSuitable: z.boolean(),
+            reason: z.string()
+        })
+    });
+};
 
-    const pdfData = await loader.load();
-    return pdfData.map(page => JSON.stringify(page)).join(' ');
-}
+type PositionData = Pick<IPosition, 'position' | 'status' | 'filters' | 'searchKeyword' | 'searchKeywordSource' | 'salaryConstraint'> & { _id?: any };
 
+const DEFAULT_EMPLOYER_LOGO = 'https://media.licdn.com/dms/image/C4D0BAQGYJfURzon1xg/company-logo_200_200/0/1631327285447?e=2147483647&v=beta&t=mTBfWh3AsArQHLJLo8fp6OLk5LLlzqQrsL6ob3uUFsA';
 
-interface TokenResponse {
-    access_token: string;
-    refresh_token: string;
-    expires_in: number;
+interface RankedVacancy {
+    vacancy: ProviderVacancy;
+    match: MatchScore;
 }
 
-class HHService {
-    authorization = async (code: string): Promise<any> => {
-        try {
-            const URL = 'https://hh.ru/oauth/token';
-            const params = new URLSearchParams({
-                grant_type: 'authorization_code',
-                client_id: process.env.HH_CLIENT_ID || '',
-                client_secret: process.env.HH_SECRET_KEY || '',
-                code: code
-            });
-            const response = await axios.post(URL, params.toString(), {
-                headers: {
-                    'Content-Type': 'application/x-www-form-urlencoded'
-                }
-            });
-            return this.extractTokens(response);
-        } catch (err) {
-            console.error("Failed to sign in");
-        }
+/** Claims a vacancy whose quota slot is already reserved, then writes the cover letter and applies or drafts. */
+const applyToVacancy = async (user: any, position: PositionData, provider: VacancyProvider, quota: PositionQuota, {vacancy, match}: RankedVacancy, runId?: mongoose.Types.ObjectId) => {
+    let claim;
+    try {
+        claim = await claimVacancy({
+            vacancy_id: vacancy.id,
+            job_name: vacancy.name,
+            employer_id: vacancy.employer.id,
+            employer_name: vacancy.employer.name,
+            salary: vacancy.salary?.from ?? 0,
+            salary_currency: vacancy.salary?.currency || undefined,
+            employer_logo: vacancy.employer.logo_urls ? vacancy.employer.logo_urls['90'] : DEFAULT_EMPLOYER_LOGO,
+            responsibility: vacancy.snippet.responsibility || '',
+            requirement: vacancy.snippet.requirement || '',
+            address: vacancy.address ? vacancy.address.raw : '',
+            url: vacancy.url,
+            user: user._id,
+            position_id: position._id ? String(position._id) : undefined,
+            isHeadHunterVacancy: vacancy.source === 'hh',
+            isOtherSiteVacancy: vacancy.source !== 'hh',
+            source: vacancy.source,
+            matchScore: match.score,
+            matchExplanation: match.explanation,
+        });
+    } catch (err: any) {
+        await quota.release();
+        await recordAttempt(runId, user, position, vacancy, 'error', err?.message);
+        throw err;
+    }
+    if (!claim) {
+        await quota.release();
+        await recordAttempt(runId, user, position, vacancy, 'duplicate', 'Claimed by another position or run');
+        return;
     }
-    sendNegotiation = async (vacancyId: string, resumeId: string, message: string, token: string): Promise<any> => {
-        try {
-            const URL = 'https://api.hh.ru/negotiations';
-            const formData = new FormData();
-            formData.append('vacancy_id', vacancyId);
-            formData.append('resume_id', resumeId);
-            if (message) {
-                formData.append('message', message);
-            }
-
-            const response = await axios.post(URL, formData, {
-                headers: {
-                    'Authorization': `Bearer ${token}`,
-                    'Content-Type': 'multipart/form-data',
-                    'HH-User-Agent': 'Recruiter AI/1.0 (arystambekdimash005@gmail.com)'
-                }
-            });
-
-            return response.data;
-        } catch (err) {
-            if (axios.isAxiosError(err)) {
-                if (err.response) {
-                    console.error('Error response data:', err.response.data);
-                    console.error('Error response status:', err.response.status);
-                    console.error('Error response headers:', err.response.headers);
-                } else if (err.request) {
-                    console.error('Error request:', err.request);
-                } else {
-                    console.error('Error message:', err.message);
-                }
-            } else {
-                console.error('Unexpected error:', err);
-            }
 
-            return {success: false, message: 'An error occurred, but the operation has continued.'};
+    // Until the provider has been called, dropping the claim is safe and lets a later run retry.
+    // After that the claim stays, so a crash or an unclear result never leads to a second application.
+    let applyStarted = false;
+    const abandon = async (outcome: AttemptOutcome, reason?: string) => {
+        await quota.release();
+        if (applyStarted) {
+            await VacanciesModel.updateOne({_id: claim._id}, {$set: {sendError: reason}});
+        } else {
+            await VacanciesModel.deleteOne({_id: claim._id});
         }
+        await recordAttempt(runId, user, position, vacancy, outcome, reason);
     };
 
-    getVacancy = async (vacancyName: any, paramsObj: any) => {
-        try {
-            const URL = 'https://api.hh.ru/vacancies';
-            const today = new Date();
-
-            const twoDaysAgo = new Date(today);
-            twoDaysAgo.setDate(today.getDate() - 2);
-
-            paramsObj.date_from = twoDaysAgo.toISOString().split('T')[0];
-            paramsObj.order_by = 'publication_time';
-            paramsObj.text = vacancyName;
-            paramsObj.area = 40
-
-            const params = new URLSearchParams(paramsObj);
-
-            const response = await axios.get(`${URL}?${params.toString()}`);
-            return response.data;
-        } catch (err: any) {
-            if (err.response) {
-                console.error("Response data:", err.response.data);
-                console.error("Response status:", err.response.status);
-                console.error("Response headers:", err.response.headers);
-            } else {
-                console.error("Error message:", err.message);
+    let coverLetter: any;
+    let resumeId: string | undefined;
+    let status: VacancyStatus = 'suggested';
+    try {
+        if (provider.isConnected(user)) {
+            const resume = await provider.selectResume(vacancy, user);
+            if (!resume) {
+                await abandon('error', 'No resume available');
+                return;
             }
-            throw err;
-        }
-    }
-    getSuitableResumeId = async (vacancyId: string, token: string): Promise<any> => {
-        try {
-            const resumesURL = `https://api.hh.ru/vacancies/${vacancyId}/suitable_resumes`;
-            const vacancyURL = `https://api.hh.ru/vacancies/${vacancyId}`;
-
-            const resumeResponse = await axios.get(resumesURL, {
-                headers: this.getHeaders(token)
-            });
-            const vacancyResponse = await axios.get(vacancyURL, {
-                headers: this.getHeaders(token)
-            });
-
-            const resumes = resumeResponse.data.items.slice(0, 4);
-            const vacancy = vacancyResponse.data;
-
-            const resumeDetails = await Promise.all(resumes.map(async (resume: any) => {
-                const pdfContent = await loadPDF(resume.download.pdf.url, token);
-                return {
-                    id: resume.id,
-                    data: pdfContent
-                };
-            }));
-
-            const vacancyDetails = `
-            Vacancy for ${vacancy.name}, located in ${vacancy.area.name}.
-            Salary: ${vacancy.salary?.from} to ${vacancy.salary?.to} ${vacancy.salary?.currency}.
-            Employment type: ${vacancy.employment.name}, Schedule: ${vacancy.schedule.name}.
-            Key skills required: ${vacancy.key_skills.map((skill: any) => skill.name).join(', ')}.
-        `;
-
-            const PROMPT = `
-            Get the most suitable resume id. WARNING : If there is no suitable resume id, then get any existing resume id.
-            Resumes:
-            ${resumeDetails.map((resume: any) => `
-                Resume ID: ${resume.id}
-                Resume data: ${resume.data}
-            `).join('\n')}
-       
-            Vacancy:
-            ${vacancyDetails}
-            
-            Return in this format:
-            {
-                "resumeId": "string" | null
+            coverLetter = await generateCoverLetter(user, vacancy, resume.text);
+            if (!coverLetter) {
+                await abandon('cover_letter_failed');
+                return;
             }
-        `;
-            const completion = await openai.chat.completions.create({
-                model: "gpt-3.5-turbo",
-                messages: [{role: "user", content: PROMPT}],
-                temperature: 0.3
-            });
-
-            const jsonResponse = completion.choices[0].message.content as string;
-
-            const regex = /"resumeId": "([^"]+)"/;
-            const match = jsonResponse.match(regex);
-
-            if (match && match[1]) {
-                return match[1];
+            resumeId = resume.id;
+            if (user.reviewBeforeSend) {
+                status = 'pending_review';
             } else {
-                const response = await axios.get('https://api.hh.ru/resumes/mine', {
-                    headers: this.getHeaders(token)
-                });
-                return response.data.items[0].id;
-            }
-        } catch (err) {
-            if (axios.isAxiosError(err)) {
-                if (err.response) {
-                    console.error('Response data:', err.response.data);
-                    console.error('Status code:', err.response.status);
-                    console.error('Headers:', err.response.headers);
-                } else if (err.request) {
-                    console.error('Request data:', err.request);
-                } else {
-                    console.error('Error message:', err.message);
+                applyStarted = true;
+                const applyResult = await provider.apply(vacancy, resume, coverLetter, user);
+                if (!applyResult.success) {
+                    // The provider reported the application as not sent, so a later run may retry it.
+                    applyStarted = false;
+                    await abandon('negotiation_failed', applyResult.message);
+                    return;
                 }
-            } else {
-                console.error('Unexpected error:', err);
+                status = 'applied';
+            }
+        } else {
+            coverLetter = await generateCoverLetter(user, vacancy);
+            if (!coverLetter) {
+                await abandon('cover_letter_failed');
+                return;
             }
         }
-    }
-    getOneResume = async (resumeId: string, token: string) => {
-        const URL = `https://api.hh.ru/resumes/${resumeId}`
-        const response = await axios.get(`${URL}`, {
-            headers: this.getHeaders(token)
-        });
-        return response.data;
-
+    } catch (err: any) {
+        await abandon('error', err?.message);
+        throw err;
     }
 
-    refreshAccessToken = async (user: IUser) => {
-        const URL = `https://api.hh.ru/token`;
-        try {
-            if (user.hasHHAccount) {
-                const data = new URLSearchParams({
-                    refresh_token: user?.hhRefreshToken as string || 'none',
-                    grant_type: "refresh_token"
-                });
-
-                const response = await axios.post(URL, data, {
-                    headers: {
-                        'Content-Type': 'application/x-www-form-urlencoded',
-                        'HH-User-Agent': 'Recruiter AI/1.0 (arystambekdimash005@gmail.com)'
-                    }
-                });
-
-                user.hhAccessToken = response.data.access_token;
-                user.hhRefreshToken = response.data.refresh_token;
-
-                await user.save();
-
-                console.log('Токены успешно обновлены');
-            } else {
-                console.log('Not hh account')
-            }
-        } catch (err) {
-            console.error('Ошибка при обновлении токенов:', err);
-            throw err;
+    await VacanciesModel.updateOne({_id: claim._id}, {
+        $set: {
+            cover_letter: coverLetter,
+            status,
+            resume_id: resumeId,
+            appliedAt: status === 'applied' ? new Date() : undefined,
         }
-    }
+    });
+    await recordAttempt(runId, user, position, vacancy, status === 'pending_review' ? 'drafted' : 'applied');
+};
 
-    extractTokens(response: any): TokenResponse {
-        return {
-            access_token: response.data.access_token,
-            refresh_token: response.data.refresh_token,
-            expires_in: response.data.expires_in
-        };
+/** The cheap checks that need no LLM call. Returns false after recording why the vacancy was skipped. */
+const passesPrechecks = async (
+    user: any,
+    position: PositionData,
+    vacancy: ProviderVacancy,
+    filters: IPositionFilters,
+    discarded: DiscardedEmployers | undefined,
+    runId?: mongoose.Types.ObjectId
+): Promise<boolean> => {
+    const exclusion = matchesExclusionRules(vacancy, user.exclusionRules, discarded);
+    if (!exclusion.matches) {
+        await recordAttempt(runId, user, position, vacancy, 'filtered', exclusion.reason);
+        return false;
     }
-
-    getHeaders(token: string): { [key: string]: string } {
-        return {
-            'Authorization': `Bearer ${token}`,
-            'HH-User-Agent': 'Recruiter AI/1.0 (arystambekdimash005@gmail.com)'
-        };
+    if (await isAlreadyClaimed(user, vacancy)) {
+        await recordAttempt(runId, user, position, vacancy, 'duplicate', 'Already applied earlier');
+        return false;
     }
-}
-
-
-const hhService = new HHService();
-
-const getApplicationsPerPosition = (numPositions: number): number => {
-    if (numPositions <= 4) return 7;
-    if (numPositions >= 8) return 2;
-    return 6;
+    const employerSkip = await checkEmployerRule(user, vacancy);
+    if (employerSkip) {
+        await recordAttempt(runId, user, position, vacancy, 'duplicate', employerSkip);
+        return false;
+    }
+    const filterResult = matchesPositionFilters(vacancy, filters);
+    if (!filterResult.matches) {
+        await recordAttempt(runId, user, position, vacancy, 'filtered', filterResult.reason);
+        return false;
+    }
+    return true;
 };
 
-const generateCoverLetter = async (user: any, vacancy: any, resume: any = '') => {
-    let COVER_LETTER_PROMPT = '';
+/** Runs the LLM suitability check. Returns false after recording why the vacancy was skipped. */
+const checkSuitability = async (user: any, position: PositionData, vacancy: ProviderVacancy, runId?: mongoose.Types.ObjectId): Promise<boolean> => {
+    let suitability: SuitabilityResult;
     try {
-        COVER_LETTER_PROMPT = `
-    Твоя задача — создать профессиональное сопроводительное письмо.
-    Адресуйте письмо следующему указанную должность:
-    Должность: ${vacancy.name}
-    Опишите, как ваше образование, опыт работы, навыки и мотивация соответствуют требованиям и задачам должности. Используйте следующую информацию:
-    Требования: ${vacancy.snippet.requirement}
-    Задачи: ${vacancy.snippet.responsibility}
-    Пишите в профессиональном, лаконичном и сжатом тоне. Сопроводительное письмо должно быть на языке вакансии. Не добавляйте лишние пробелы или символы.
-    Имя: ${user.firstName}
-    Фамилия: ${user.lastName}
-    Резюме: ${resume}
-    Пример сопроводительного письма:
-    Здравствуйте, Я пишу, чтобы выразить свою заинтересованность в должности ${vacancy.name} в компании ${vacancy.employer.name}. 
-    Уверен, что мои навыки и опыт делают меня сильным кандидатом на эту роль. Благодаря проактивному подходу, исключительной 
-    трудовой этике и решимости превосходить цели, я уверен в своей способности успешно выполнять обязанности данной должности.
-    У меня более [время(если есть если нет не надо врать)] опыта в [соответствующей области/должности]. В моей предыдущей роли в [предыдущий работодатель] я 
-    [кратко опишите ключевые достижения и обязанности, связанные с работой].
-    Кроме того, у меня есть опыт работы с [соответствующее программное обеспечение/инструменты/навыки].
-    Я с нетерпением жду возможности обсудить, как мой опыт, навыки и энтузиазм могут способствовать успеху.
-    Спасибо за рассмотрение моей заявки. Надеюсь на возможность обсудить мои квалификации подробнее.
-    Попробуйте писать 50-60 слов и всегда начинай на Здравствуйте.
-    
-    
-    И Важно если у меня в резюме нет подходящего навыка или опыта работы или я сам тебе не сказал не пиши про это. Пиший правильный нормальный сопровождательный письмо 
-    Никого не обманывай
-  `;
-    } catch (err) {
-        console.log(err)
+        suitability = await isSuitableVacancy(position.position, vacancy);
+    } catch (err: any) {
+        // Left out of VacanciesModel so the vacancy is reconsidered on the next run.
+        await recordAttempt(runId, user, position, vacancy, 'error', err?.message);
+        return false;
     }
-    try {
-        const completion = await openai.chat.completions.create({
-            messages: [{role: 'user', content: COVER_LETTER_PROMPT}],
-            model: 'gpt-4o-mini',
-            temperature: 0.3
-        });
+    if (!suitability.isSuitable) {
+        await recordAttempt(runId, user, position, vacancy, 'filtered', suitability.reason);
+        return false;
+    }
+    return true;
+};
 
-        return completion.choices[0].message.content;
-    } catch (error) {
-        console.error('Error generating cover letter:', error);
-        return null;
+const loadResumeTexts = async (user: any, provider: VacancyProvider): Promise<string[]> => {
+    try {
+        return (await provider.getResumes(user)).map(resume => resume.text).filter(Boolean);
+    } catch (err: any) {
+        logger.error('Error loading resumes for scoring', {source: provider.source, error: err});
+        return [];
     }
 };
 
-const isSuitableVacancy = async (position: string, vacancy: any): Promise<boolean> => {
-    const vacancyDetails = `
-    Vacancy Title: ${vacancy.name}, Vacancy Responsibility: ${vacancy.snippet.responsibility}, Vacancy Requirements: ${vacancy.snippet.requirement}.
-    Salary: ${vacancy.salary?.from} to ${vacancy.salary?.to} ${vacancy.salary?.currency}.
-  `;
-    const PROMPT = `Analyze if the vacancy is suitable for the user's request. 
-    User's requested position: ${position} \n Vacancy Details: ${vacancyDetails} \n
-    Return in this format: 
-{
-"isSuitable": boolean,
-"reason": "string"
-}
-    This format is required
-    WARNING: Vacancy should be max suitable and if not suitable is suitable is false`;
+/**
+ * Searches the position on one provider and spends the quota on the best
+ * matches of each page: vacancies are scored against the user's resumes and
+ * taken in rank order, so a slot goes to the strongest match rather than to
+ * whichever request finished first.
+ */
+export const processVacancies = async (user: any, position: PositionData, provider: VacancyProvider, quota: PositionQuota, runId?: mongoose.Types.ObjectId) => {
+    if (!user.positions || quota.exhausted) return;
 
+    let searchKeyword;
     try {
-        const completion = await openai.chat.completions.create({
-            messages: [{role: 'user', content: PROMPT}],
-            model: 'gpt-4o-mini',
-            temperature: 0.3
-        });
-
-        const responseText: any = completion.choices[0].message.content;
-        const responseJson = JSON.parse(responseText);
-        return responseJson.isSuitable;
+        searchKeyword = await ensurePositionKeyword(user._id, position);
     } catch (error) {
-        console.error('Error determining if vacancy is suitable:', error);
-        return false;
+        logger.error('Error preparing search keyword for position', {position: position.position, error});
+        return;
     }
-};
-
-const processVacancies = async (user: any, position: { position: string; status: string }) => {
-    if (!user.positions) return;
+    const filters = withSalaryConstraint(position.filters, searchKeyword.salaryConstraint);
+    logger.info('Searching vacancies', {source: provider.source, keyword: searchKeyword.keyword});
+    const discarded = user.exclusionRules?.learnFromDiscards === false ? undefined : await loadDiscardedEmployers(user);
+    // Without a resume the position itself is the best description of what the user is after.
+    const resumeTexts = await loadResumeTexts(user, provider);
+    const profileTexts = resumeTexts.length > 0 ? resumeTexts : [position.position];
 
-    const applicationsPerPosition = getApplicationsPerPosition(user.positions.length);
-    const vacancyDocs: any[] = [];
-    let processedVacancies = 0;
     for (let page = 1; page <= 6; page++) {
-        const PROMPT = `
-        Я буду давать тебе positions как это (это просто экзампл) Python developer с зарплатой меньше 350000тг и ты должен извелечь
-        позицию как (это просто экзампл) Python developer
-        
-        и еще постоянно извелечь ключевой слово это нужно для поиска по вакансям как это просто экзампл Javascript разработчик или т.д
-        и извелечь без уровней только позицию
-        
-        user wanted position text: ${position.position} 
-        
-        {"position" : "string"}
-      `;
         try {
-            const completion = await openai.chat.completions.create({
-                messages: [{role: 'user', content: PROMPT}],
-                model: 'gpt-4o-mini',
-                temperature: 0.3
-            });
-            const responseText: any = completion.choices[0].message.content;
-            const responseJson = JSON.parse(responseText);
-            const extractPosition = responseJson.position;
-            console.log(extractPosition)
-            const vacanciesPage = await hhService.getVacancy(extractPosition, {
+            const vacanciesPage = await provider.searchVacancies({
+                text: searchKeyword.keyword,
                 page,
-                text: extractPosition,
-                only_with_salary: user.only_with_salary,
-            });
+                onlyWithSalary: user.only_with_salary,
+                filters,
+            }, user);
             if (vacanciesPage.items.length === 0) {
                 continue;
             }
-            const promises = vacanciesPage.items.map(async (vacancy: any) => {
-                if (processedVacancies >= applicationsPerPosition) {
-                    return;
-                }
-                const alreadyInVacancyDocs = vacancyDocs.some((doc: any) => doc.vacancy_id === vacancy.id || (doc.job_name === vacancy.name && doc.employer_name === vacancy.employer.name) || (doc.job_name === vacancy.name));
-                if (alreadyInVacancyDocs) {
-                    return;
-                }
-                const alreadyExistingVacancy = await VacanciesModel.findOne({user: user.id, job_name: vacancy.name});
-                if (alreadyExistingVacancy) {
-                    return;
-                }
-                const isSuitable = await isSuitableVacancy(position.position, vacancy);
-                if (!isSuitable) return;
-
-                let coverLetter: any;
-                if (user.hasHHAccount) {
-                    const resumeId = await hhService.getSuitableResumeId(vacancy.id, user.hhAccessToken as string);
-                    const resumeDetail = await hhService.getOneResume(resumeId, user.hhAccessToken as string);
-                    const pdfContent = await loadPDF(resumeDetail.download.pdf.url, user.hhAccessToken);
-                    coverLetter = await generateCoverLetter(user, vacancy, pdfContent);
-                    await hhService.sendNegotiation(vacancy.id, resumeId, coverLetter, user.hhAccessToken as string);
+
+            const passed = await Promise.all(vacanciesPage.items.map(vacancy => passesPrechecks(user, position, vacancy, filters, discarded, runId)));
+            const candidates = vacanciesPage.items.filter((_, i) => passed[i]);
+            const scores = await scoreVacancies(candidates, profileTexts, filters);
+            const ranked: RankedVacancy[] = candidates
+                .map((vacancy, i) => ({vacancy, match: scores[i]}))
+                .sort((a, b) => b.match.score - a.match.score);
+
+            const eligible: RankedVacancy[] = [];
+            for (const item of ranked) {
+                if (item.match.score < MIN_MATCH_SCORE) {
+                    await recordAttempt(runId, user, position, item.vacancy, 'filtered', `Match score ${item.match.score} is below ${MIN_MATCH_SCORE}: ${item.match.explanation}`);
                 } else {
-                    coverLetter = await generateCoverLetter(user, vacancy);
-                    if (!coverLetter) {
-                        return;
+                    eligible.push(item);
+                }
+            }
+
+            // Only as many suitability checks as there are free slots run at once, best matches first.
+            let next = 0;
+            while (next < eligible.length && !quota.exhausted) {
+                const batch = eligible.slice(next, next + quota.available);
+                next += batch.length;
+                const suitable = await Promise.all(batch.map(item => checkSuitability(user, position, item.vacancy, runId)));
+                // Reserve in rank order before the slow cover-letter and apply calls so concurrent work cannot overshoot.
+                // Every slot is reserved before any application starts, so a failed reservation leaves nothing running.
+                const reserved: RankedVacancy[] = [];
+                try {
+                    for (let i = 0; i < batch.length; i++) {
+                        if (suitable[i] && await quota.tryReserve()) reserved.push(batch[i]);
                     }
+                } catch (err) {
+                    await Promise.all(reserved.map(() => quota.release()));
+                    throw err;
                 }
+                // A failed application frees its slot, so wait for this batch before deciding whether more are needed.
+                await Promise.all(reserved.map(item => applyToVacancy(user, position, provider, quota, item, runId).catch(error => {
+                    logger.error('Error applying to vacancy', {source: provider.source, vacancyId: item.vacancy.id, error});
+                })));
+            }
 
-                const vacancyDoc = {
-                    vacancy_id: vacancy.id,
-                    job_name: vacancy.name,
-                    employer_name: vacancy.employer.name,
-                    salary: vacancy.salary ? vacancy.salary.from : 0,
-                    employer_logo: vacancy.employer.logo_urls ? vacancy.employer.logo_urls['90'] : 'https://media.licdn.com/dms/image/C4D0BAQGYJfURzon1xg/company-logo_200_200/0/1631327285447?e=2147483647&v=beta&t=mTBfWh3AsArQHLJLo8fp6OLk5LLlzqQrsL6ob3uUFsA',
-                    responsibility: vacancy.snippet.responsibility || '',
-                    requirement: vacancy.snippet.requirement || '',
-                    address: vacancy.address ? vacancy.address.raw : '',
-                    url: `https://hh.kz/vacancy/${vacancy.id}/`,
-                    user: user._id,
-                    cover_letter: coverLetter,
-                    isHeadHunterVacancy: true,
-                    isOtherSiteVacancy: false,
-                };
-                vacancyDocs.push(vacancyDoc);
-                processedVacancies++;
-            });
-
-            await Promise.allSettled(promises);
-
-            if (processedVacancies >= applicationsPerPosition) break;
+            if (quota.exhausted) break;
         } catch (error) {
-            console.error('Error processing vacancies for page', page, error);
+            logger.error('Error processing vacancies for page', {source: provider.source, page, error});
         }
     }
+};
 
-    if (vacancyDocs.length > 0) {
-        try {
-            await VacanciesModel.insertMany(vacancyDocs, {ordered: false});
-            console.log('Vacancies inserted successfully');
-        } catch (error) {
-            console.error('Error inserting vacancies:', error);
+const USER_BATCH_SIZE = Number(process.env.USER_BATCH_SIZE) || 200;
+
+// Only what is needed to queue a user; the job loads the full user, tokens included, when it runs.
+const SELECTION_PROJECTION = {
+    _id: 1,
+    schedule: 1,
+    hasHHAccount: 1,
+    hasLinkedinAccount: 1,
+    'positions.position': 1,
+    'positions.status': 1
+};
+const DIGEST_PROJECTION = {_id: 1, email: 1, hhDisconnectedAt: 1, notificationPreferences: 1};
+
+export const USER_JOB = 'autoApply.user';
+export const POSITION_JOB = 'autoApply.position';
+
+/** Refreshes tokens and returns the providers usable for the user. Skips are recorded on the run when one is given. */
+const prepareProviders = async (user: any, runId?: mongoose.Types.ObjectId): Promise<VacancyProvider[]> => {
+    const providers: VacancyProvider[] = [];
+    for (const provider of getProvidersForUser(user)) {
+        if (provider.isConnected(user)) {
+            try {
+                await provider.refreshAccessToken(user);
+            } catch (err: any) {
+                logger.warn('Skipping provider for user', {source: provider.source, userId: user._id, error: err});
+                if (runId) await recordUserSkip(runId, user, `${provider.source}: ${err?.message}`);
+                continue;
+            }
         }
-    } else {
-        console.log('No vacancies to insert');
+        providers.push(provider);
     }
+    return providers;
 };
 
-const processUsers = async (users: any[]) => {
-    const q = queue(async (user: any, callback) => {
-        await hhService.refreshAccessToken(user)
-        const positionPromises = user.positions.map(async (position: any) => {
-            if (position.position && position.status === 'Active') {
-                await processVacancies(user, position);
-            }
+// Checks the user's accounts once and fans out one job per active position.
+const processUserJob = (job: IJob) => withLogContext({userId: job.payload.userId}, async () => {
+    const user: any = await UserModel.findById(job.payload.userId).lean();
+    if (!user) return;
+    await prepareProviders(user, job.run);
+    for (const position of user.positions || []) {
+        if (!position.position || position.status !== 'Active') continue;
+        await enqueueJob(POSITION_JOB, {userId: String(user._id), positionId: String(position._id)}, {
+            run: job.run,
+            priority: job.priority,
+            key: `${POSITION_JOB}:${position._id}`
         });
-        await Promise.allSettled(positionPromises);
-        callback();
-    }, 10);
+    }
+});
+
+const processPositionJob = (job: IJob) => withLogContext({userId: job.payload.userId, positionId: job.payload.positionId}, async () => {
+    const user: any = await UserModel.findById(job.payload.userId).lean();
+    const position = user?.positions?.find((p: any) => String(p._id) === job.payload.positionId);
+    if (!position || !position.position || position.status !== 'Active') return;
+
+    // The user job already recorded skipped providers; here they are just left out.
+    const providers = await prepareProviders(user);
+    // Resolve the keyword and quota once so providers searching in parallel share them.
+    await ensurePositionKeyword(user._id, position);
+    // User-level slots come from shared counters, so the user's other position jobs draw from the same caps.
+    const quota = await new UserQuota(user).forPosition(position);
+    await Promise.allSettled(providers.map(provider => processVacancies(user, position, provider, quota, job.run)));
+});
+
+/** Finishes the run once all its jobs are done or dead. Whichever worker settles the last job gets here. */
+const finishRunIfDrained = async (runId: mongoose.Types.ObjectId) => {
+    const run = await RunModel.findById(runId, {status: 1, enqueuedAt: 1}).lean();
+    if (!run || run.status !== 'running' || !run.enqueuedAt || await hasActiveJobs(runId)) return;
+    if (!(await finishRun(runId))) return;
+
+    const userIds: string[] = await JobModel.distinct('payload.userId', {run: runId, type: USER_JOB});
+    for (let i = 0; i < userIds.length; i += USER_BATCH_SIZE) {
+        // Digests never need tokens, which is why a plain projection without decryption is enough here.
+        const users: any[] = await UserModel.find({_id: {$in: userIds.slice(i, i + USER_BATCH_SIZE)}}, DIGEST_PROJECTION).lean();
+        await sendRunDigests(runId, users);
+    }
+    logger.info('Run finished', {runId});
+};
+
+export const autoApplyWorker = new QueueWorker(
+    {[USER_JOB]: processUserJob, [POSITION_JOB]: processPositionJob},
+    {
+        onSettled: async job => {
+            if (job.run) await finishRunIfDrained(job.run);
+        }
+    }
+);
+
+export const RUN_LOCK_NAME = 'autoApply';
+const RUN_LOCK_TTL_MS = Number(process.env.RUN_LOCK_TTL_MS) || 5 * 60 * 1000;
+const RUN_LOCK_HEARTBEAT_MS = Number(process.env.RUN_LOCK_HEARTBEAT_MS) || 60 * 1000;
 
-    users.forEach(user => q.push(user));
-    await q.drain();
+// Only covers this instance queuing users; isRunInProgress below is the cluster-wide answer.
+let runInProgress = false;
+
+/** True while any instance is queuing a run or a running run still has queued or running jobs. */
+export const isRunInProgress = async (): Promise<boolean> => {
+    if (runInProgress || await getLeaseHolder(RUN_LOCK_NAME)) return true;
+    const runs = await RunModel.find({status: 'running'}, {_id: 1}).lean();
+    if (runs.length === 0) return false;
+    return !!(await JobModel.exists({run: {$in: runs.map(run => run._id)}, status: {$in: ['queued', 'running']}}));
 };
 
-const autoApply = async () => {
+export interface AutoApplyOptions {
+    trigger?: string;
+    userId?: string;
+    /** Only process users whose scheduled slot is due, and move them on to their next slot. */
+    dueOnly?: boolean;
+}
+
+/**
+ * HR accounts and unverified users are never processed, so they are left out of
+ * the query itself. Users without a board account or an active position are
+ * still selected so the run can record why they were skipped.
+ */
+const selectUsers = (options: AutoApplyOptions, now: Date) => {
+    const eligible = {isVerified: true, isHr: {$ne: true}};
+    if (options.userId) return {...eligible, _id: options.userId};
+    if (options.dueOnly) return {...eligible, ...dueUsersFilter(now)};
+    return eligible;
+};
+
+const skipReasonFor = (user: any): string | null => {
+    if (!user.hasHHAccount && !user.hasLinkedinAccount) return 'No connected HH or LinkedIn account';
+    if (!(user.positions || []).some((p: any) => p.position && p.status === 'Active')) return 'No active position';
+    return null;
+};
+
+/** Queues one batch of selected users and records the ones skipped. Returns how many were queued. */
+const enqueueUserBatch = async (users: any[], runId: mongoose.Types.ObjectId, priority: number) => {
+    const skips: { user: string; reason: string }[] = [];
+    const eligible: any[] = [];
+    for (const user of users) {
+        const reason = skipReasonFor(user);
+        if (reason) {
+            skips.push({user: String(user._id), reason});
+        } else {
+            eligible.push(user);
+        }
+    }
+
+    const duplicates = await enqueueJobs(eligible.map(user => ({
+        type: USER_JOB,
+        payload: {userId: String(user._id)},
+        options: {run: runId, priority, key: `${USER_JOB}:${user._id}`}
+    })));
+    duplicates.forEach(index => skips.push({user: String(eligible[index]._id), reason: 'Already queued by an earlier run'}));
+    await recordUserSkips(runId, skips);
+    return eligible.length - duplicates.size;
+};
+
+// Moved forward before processing, so a crashed run does not make the same users due again every tick.
+const advanceSchedules = async (users: any[], now: Date) => {
+    if (users.length === 0) return;
+    await UserModel.bulkWrite(users.map(user => ({
+        updateOne: {
+            filter: {_id: user._id},
+            update: {$set: {nextRunAt: nextScheduledRun(user.schedule, now) || undefined}}
+        }
+    })));
+};
+
+export const autoApply = async (options: AutoApplyOptions = {}) => {
+    const trigger = options.trigger || 'cron';
+    if (runInProgress) {
+        logger.info('Previous run is still in progress, skipping', {trigger});
+        await recordSkippedRun(trigger, 'Previous run on this instance is still in progress', instanceId);
+        return;
+    }
+
+    runInProgress = true;
+    let run;
+    let lease;
     try {
-        console.log('Task started');
-        const users: any[] = await UserModel.find({}).lean();
-        console.log(users)
-        await processUsers(users);
-        console.log('Task ended');
+        lease = await acquireLease(RUN_LOCK_NAME, {ttlMs: RUN_LOCK_TTL_MS, heartbeatMs: RUN_LOCK_HEARTBEAT_MS});
+        if (!lease) {
+            const holder = await getLeaseHolder(RUN_LOCK_NAME);
+            logger.info('Run lock is held by another instance, skipping', {trigger, holder: holder?.owner});
+            await recordSkippedRun(trigger, `Run lock is held by ${holder?.owner || 'another instance'}`, instanceId);
+            return;
+        }
+
+        const now = new Date();
+        const filter = selectUsers(options, now);
+        if (options.dueOnly && !(await UserModel.exists(filter))) return;
+
+        run = await startRun(trigger, instanceId);
+        const runId = run._id as mongoose.Types.ObjectId;
+        logger.info('Run started', {runId, trigger});
+
+        // Manual runs jump ahead of scheduled ones.
+        const priority = trigger === 'manual' ? 10 : 0;
+        let usersCount = 0;
+        let queued = 0;
+        let batch: any[] = [];
+        const flush = async () => {
+            if (options.dueOnly) await advanceSchedules(batch, now);
+            queued += await enqueueUserBatch(batch, runId, priority);
+            usersCount += batch.length;
+            batch = [];
+        };
+        // Streamed so memory stays flat however many users match.
+        const cursor = UserModel.find(filter, SELECTION_PROJECTION).lean().cursor({batchSize: USER_BATCH_SIZE});
+        for await (const user of cursor) {
+            batch.push(user);
+            if (batch.length >= USER_BATCH_SIZE) await flush();
+        }
+        if (batch.length > 0) await flush();
+
+        await RunModel.updateOne({_id: runId}, {$set: {usersCount, enqueuedAt: new Date()}});
+        logger.info('Users queued', {runId, queued, usersCount});
+        // Covers runs without users and jobs that finished before enqueuedAt was set.
+        await finishRunIfDrained(runId);
     } catch (error) {
-        console.error('Error during auto apply process:', error);
+        logger.error('Error during auto apply process', {runId: run?._id, error});
+        if (run) await finishRun(run._id as mongoose.Types.ObjectId, error);
+    } finally {
+        if (lease) await lease.release();
+        runInProgress = false;
     }
 };
 
-export const job1 = new CronJob('0 */2 * * *', autoApply, null, true, 'Asia/Qyzylorda');
+let lastSchedulerTickAt: Date | undefined;
+// Last pause flag this instance read, for the health probes, which cannot wait on Mongo.
+let schedulerPaused = false;
+
+/**
+ * Scheduler tick. Each user has their own slots (see schedule.ts), so the tick
+ * runs every minute and only processes users whose `nextRunAt` has passed.
+ * Schedules and the pause flag are read from the database on every tick, so
+ * edits and pauses apply on every instance without a restart.
+ */
+export const runDueUsers = async () => {
+    schedulerPaused = await isSchedulerPaused(RUN_LOCK_NAME);
+    if (schedulerPaused) return;
+    // Due users stay due, so a tick that finds a run in progress just leaves them for the next one.
+    if (runInProgress || !(await UserModel.exists(selectUsers({dueOnly: true}, new Date())))) return;
+    if (await getLeaseHolder(RUN_LOCK_NAME)) return;
+    await autoApply({trigger: 'schedule', dueOnly: true});
+};
+
+// Keeps ticking while paused, so a resume from any instance is picked up on the next tick.
+export const job1 = new CronJob('* * * * *', () => {
+    lastSchedulerTickAt = new Date();
+    return runDueUsers().catch(err => logger.error('Error in scheduler tick', {error: err}));
+}, null, true, DEFAULT_TIMEZONE);
 
-// Schedule the job to run at 3:00 PM
-// export const job2 = new CronJob('0 15 * * *', autoApply, null, true, 'Asia/Qyzylorda');
-//
-// // Schedule the job to run at 6:00 PM
-// export const job3 = new CronJob('0 18 * * *', autoApply, null, true, 'Asia/Qyzylorda');
-//
-// // Schedule the job to run at 11:59 PM
-// export const job4 = new CronJob('59 23 * * *', autoApply, null, true, 'Asia/Qyzylorda');
+export const pauseScheduler = async () => {
+    await setSchedulerPaused(RUN_LOCK_NAME, true);
+    schedulerPaused = true;
+};
 
-// export const test = new CronJob('*/5 * * * *', autoApply, null, true, 'Asia/Qyzylorda');
+export const resumeScheduler = async () => {
+    await setSchedulerPaused(RUN_LOCK_NAME, false);
+    schedulerPaused = false;
+};
 
+/**
+ * When the scheduler will next process someone: the next tick when a user is
+ * already due, otherwise the earliest slot among the users it can select.
+ * Null when nobody is scheduled.
+ */
+export const getNextScheduledRunAt = async (): Promise<Date | null> => {
+    const now = new Date();
+    if (await UserModel.exists(selectUsers({dueOnly: true}, now))) return job1.nextDate().toJSDate();
+    const next = await UserModel.findOne(
+        {...selectUsers({}, now), 'schedule.enabled': {$ne: false}, nextRunAt: {$gt: now}},
+        {nextRunAt: 1}
+    ).sort({nextRunAt: 1}).lean();
+    return next?.nextRunAt || null;
+};
+
+/** What the health probes need to know about the scheduler and the workers on this instance. */
+export const getSchedulerState = () => ({
+    running: job1.running,
+    paused: schedulerPaused,
+    lastTickAt: lastSchedulerTickAt,
+    workerRunning: autoApplyWorker.isRunning,
+    runInProgress,
+});
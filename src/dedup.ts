@@ -0,0 +1,85 @@
+import {IUser, IVacancy, VacanciesModel} from "./models";
+import {ProviderVacancy} from "./providers";
+import {COUNTED_STATUSES} from "./quota";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface EmployerRule {
+    cooldownDays: number;
+    maxApplications: number;
+}
+
+/**
+ * How often a user may apply to the same employer. Defaults come from
+ * EMPLOYER_COOLDOWN_DAYS (0, the default, turns the rule off) and
+ * EMPLOYER_MAX_APPLICATIONS, and can be overridden per user.
+ */
+export const resolveEmployerRule = (user: IUser): EmployerRule => ({
+    cooldownDays: user.employerRule?.cooldownDays ?? (Number(process.env.EMPLOYER_COOLDOWN_DAYS) || 0),
+    maxApplications: user.employerRule?.maxApplications ?? (Number(process.env.EMPLOYER_MAX_APPLICATIONS) || 1),
+});
+
+export const isAlreadyClaimed = async (user: IUser, vacancy: ProviderVacancy): Promise<boolean> => {
+    const existing = await VacanciesModel.exists({user: String(user._id), vacancy_id: vacancy.id, source: vacancy.source});
+    return !!existing;
+};
+
+/** Returns a skip reason when the user already hit the employer rule, otherwise null. */
+export const checkEmployerRule = async (user: IUser, vacancy: ProviderVacancy): Promise<string | null> => {
+    const rule = resolveEmployerRule(user);
+    // Without an id or a name there is nothing to tell this employer apart from other unnamed ones.
+    if (rule.cooldownDays <= 0 || (!vacancy.employer.id && !vacancy.employer.name)) return null;
+
+    // Older rows have no employer_id, so fall back to the name for them.
+    const employer = vacancy.employer.id
+        ? {$or: [{employer_id: vacancy.employer.id}, {employer_id: {$exists: false}, employer_name: vacancy.employer.name}]}
+        : {employer_name: vacancy.employer.name};
+    const count = await VacanciesModel.countDocuments({
+        user: String(user._id),
+        source: vacancy.source,
+        status: {$in: COUNTED_STATUSES},
+        createdAt: {$gte: new Date(Date.now() - rule.cooldownDays * DAY_MS)},
+        ...employer,
+    });
+    if (count >= rule.maxApplications) {
+        return `Applied to ${vacancy.employer.name} ${count} time(s) in the last ${rule.cooldownDays} days`;
+    }
+    return null;
+};
+
+// An employer who turned the user down may be worth another try after a while, e.g. for a different role.
+const DISCARD_SUPPRESSION_DAYS = Number(process.env.DISCARD_SUPPRESSION_DAYS) || 180;
+
+export interface DiscardedEmployers {
+    ids: Set<string>;
+    names: Set<string>;
+}
+
+/** Employers who discarded one of the user's applications recently, learned from the synced HH negotiations. */
+export const loadDiscardedEmployers = async (user: IUser): Promise<DiscardedEmployers> => {
+    const discarded = await VacanciesModel.find(
+        {
+            user: String(user._id),
+            negotiationState: 'discard',
+            negotiationUpdatedAt: {$gte: new Date(Date.now() - DISCARD_SUPPRESSION_DAYS * DAY_MS)}
+        },
+        {employer_id: 1, employer_name: 1}
+    ).lean();
+    return {
+        ids: new Set(discarded.map(v => v.employer_id).filter((id): id is string => !!id)),
+        names: new Set(discarded.map(v => v.employer_name.toLowerCase().trim()).filter(Boolean)),
+    };
+};
+
+/**
+ * Inserts the vacancy row with status `claimed`. Returns null when the unique
+ * (user, vacancy_id, source) index shows another position or run got there first.
+ */
+export const claimVacancy = async (doc: Partial<IVacancy>): Promise<IVacancy | null> => {
+    try {
+        return await VacanciesModel.create({...doc, status: 'claimed'});
+    } catch (err: any) {
+        if (err?.code === 11000) return null;
+        throw err;
+    }
+};
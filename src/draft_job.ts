@@ -0,0 +1,80 @@
+import {CronJob} from 'cron';
+import {IUser, IVacancy, UserModel, VacanciesModel} from "./models";
+import {getProvider, ProviderVacancy} from "./providers";
+import {releaseUserSlot} from "./quota";
+import {logger} from "./logger";
+
+const DRAFT_BATCH_SIZE = 50;
+
+const toProviderVacancy = (draft: IVacancy): ProviderVacancy => ({
+    id: draft.vacancy_id,
+    source: draft.source as ProviderVacancy['source'],
+    name: draft.job_name,
+    url: draft.url,
+    employer: {name: draft.employer_name},
+    snippet: {requirement: draft.requirement, responsibility: draft.responsibility}
+});
+
+const sendDraft = async (draft: IVacancy, user: IUser, refreshed: Set<string>) => {
+    const provider = getProvider(draft.source);
+    if (!provider || !provider.isConnected(user)) {
+        draft.status = 'send_failed';
+        draft.sendError = `No connected ${draft.source} account`;
+        await draft.save();
+        if (draft.createdAt) await releaseUserSlot(String(user._id), draft.createdAt);
+        return;
+    }
+
+    try {
+        if (!refreshed.has(provider.source)) {
+            await provider.refreshAccessToken(user);
+            refreshed.add(provider.source);
+        }
+        const result = await provider.apply(
+            toProviderVacancy(draft),
+            {id: draft.resume_id || '', text: ''},
+            draft.cover_letter,
+            user
+        );
+        if (result.success) {
+            draft.status = 'applied';
+            draft.appliedAt = new Date();
+            draft.sendError = undefined;
+        } else {
+            draft.status = 'send_failed';
+            draft.sendError = result.message;
+        }
+    } catch (err: any) {
+        logger.error('Error sending approved draft', {userId: user._id, vacancyId: draft.vacancy_id, error: err});
+        draft.status = 'send_failed';
+        draft.sendError = err?.message;
+    }
+    await draft.save();
+    if (draft.status === 'send_failed' && draft.createdAt) await releaseUserSlot(String(user._id), draft.createdAt);
+};
+
+export const sendApprovedDrafts = async () => {
+    try {
+        const userIds: string[] = await VacanciesModel.distinct('user', {status: 'approved'});
+        for (const userId of userIds) {
+            const user = await UserModel.findById(userId);
+            if (!user) continue;
+
+            const refreshed = new Set<string>();
+            for (let i = 0; i < DRAFT_BATCH_SIZE; i++) {
+                // Claim one draft at a time so concurrent instances never send the same draft twice.
+                const draft = await VacanciesModel.findOneAndUpdate(
+                    {user: userId, status: 'approved'},
+                    {$set: {status: 'sending'}},
+                    {new: true}
+                );
+                if (!draft) break;
+                await sendDraft(draft, user, refreshed);
+            }
+        }
+    } catch (error) {
+        logger.error('Error sending approved drafts', {error});
+    }
+};
+
+export const draftJob = new CronJob('*/10 * * * *', () => sendApprovedDrafts(), null, false, 'Asia/Qyzylorda');
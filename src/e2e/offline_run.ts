@@ -0,0 +1,165 @@
+import assert from "assert";
+import http from "http";
+import {AddressInfo} from "net";
+import crypto from "crypto";
+import mongoose from "mongoose";
+
+/**
+ * Runs processVacancies end to end without leaving the machine: HH is served
+ * by a local HTTP stub, the LLM by FakeLLMProvider, and every write goes to a
+ * throwaway database on MONGO_DB_URI (a local mongod, e.g. a CI service
+ * container), which is dropped at the end. Exits non-zero when an assertion fails.
+ */
+
+const RESUME_ID = 'resume-1';
+const RESUME_TEXT = 'Node.js developer. TypeScript, Express, MongoDB. Five years of building REST APIs.';
+const RESUME_UPDATED_AT = '2024-01-01T00:00:00+0300';
+
+const vacancy = (id: string, name: string, employer: { id: string; name: string }, requirement: string | null) => ({
+    id,
+    name,
+    employer: {...employer, logo_urls: null},
+    area: {id: '40', name: 'Казахстан'},
+    salary: null,
+    // HH sends null snippets for many vacancies; the claim has to cope with that.
+    snippet: {requirement, responsibility: 'Build and maintain REST APIs in Node.js'},
+    address: null,
+});
+
+const VACANCIES = [
+    vacancy('1001', 'Node.js developer', {id: '501', name: 'Acme'}, null),
+    vacancy('1002', 'Backend developer (Node.js)', {id: '502', name: 'Blocked Corp'}, 'Node.js, TypeScript'),
+];
+
+interface StubRequest {
+    method: string;
+    path: string;
+    body: string;
+}
+
+/** Answers the HH endpoints the run calls and records every request. */
+const startHHStub = async () => {
+    const requests: StubRequest[] = [];
+    const server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+            const url = new URL(req.url || '/', 'http://stub');
+            requests.push({method: req.method || 'GET', path: url.pathname, body: Buffer.concat(chunks).toString('utf8')});
+            const json = (status: number, body: unknown) => {
+                res.writeHead(status, {'Content-Type': 'application/json'});
+                res.end(JSON.stringify(body));
+            };
+            const resumes = {
+                items: [{
+                    id: RESUME_ID,
+                    title: 'Node.js developer',
+                    updated_at: RESUME_UPDATED_AT,
+                    download: {pdf: {url: `http://${req.headers.host}/resumes/${RESUME_ID}/download`}}
+                }]
+            };
+
+            if (req.method === 'GET' && url.pathname === '/vacancies') {
+                // The run walks several pages; only the first has vacancies.
+                return json(200, {items: url.searchParams.get('page') === '1' ? VACANCIES : [], pages: 1});
+            }
+            const suitable = url.pathname.match(/^\/vacancies\/(\w+)\/suitable_resumes$/);
+            if (req.method === 'GET' && suitable) return json(200, resumes);
+            const detail = url.pathname.match(/^\/vacancies\/(\w+)$/);
+            if (req.method === 'GET' && detail) {
+                const item = VACANCIES.find(v => v.id === detail[1]);
+                if (!item) return json(404, {errors: [{type: 'not_found'}]});
+                return json(200, {
+                    ...item,
+                    employment: {id: 'full', name: 'Полная занятость'},
+                    schedule: {id: 'remote', name: 'Удаленная работа'},
+                    key_skills: [{name: 'Node.js'}, {name: 'TypeScript'}]
+                });
+            }
+            if (req.method === 'GET' && url.pathname === '/resumes/mine') return json(200, resumes);
+            if (req.method === 'POST' && url.pathname === '/negotiations') {
+                res.writeHead(201);
+                return res.end();
+            }
+            json(404, {errors: [{type: 'not_found', value: url.pathname}]});
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const {port} = server.address() as AddressInfo;
+    return {url: `http://127.0.0.1:${port}`, requests, close: () => new Promise(resolve => server.close(resolve))};
+};
+
+const run = async () => {
+    const stub = await startHHStub();
+    // Read when the modules below are first loaded, so they are set before the dynamic imports.
+    process.env.HH_API_URL = stub.url;
+    process.env.HH_OAUTH_URL = stub.url;
+    process.env.LLM_PROVIDER = 'fake';
+    process.env.TOKEN_ENCRYPTION_KEYS = process.env.TOKEN_ENCRYPTION_KEYS || `offline:${crypto.randomBytes(32).toString('base64')}`;
+
+    const {setLLMProvider, FakeLLMProvider} = await import("../llm");
+    const {job1, processVacancies} = await import("../cron_job");
+    const {UserModel, VacanciesModel} = await import("../models");
+    const {ResumeModel} = await import("../resume_store");
+    const {ApplicationAttemptModel, startRun} = await import("../run_ledger");
+    const {UserQuota} = await import("../quota");
+    const {hhService} = await import("../providers");
+    // Only the direct call below should run; the scheduler starts when cron_job is loaded.
+    job1.stop();
+
+    const llm = new FakeLLMProvider();
+    setLLMProvider(llm);
+
+    const dbName = `autoapply_offline_${crypto.randomBytes(4).toString('hex')}`;
+    await mongoose.connect(process.env.MONGO_DB_URI || 'mongodb://127.0.0.1:27017', {dbName});
+    try {
+        // Cached with the listing's updated_at, so the resume PDF is never downloaded.
+        await ResumeModel.create({source: 'hh', resumeId: RESUME_ID, text: RESUME_TEXT, sourceUpdatedAt: new Date(RESUME_UPDATED_AT)});
+        const created = await UserModel.create({
+            email: 'offline@example.com',
+            firstName: 'Test',
+            lastName: 'User',
+            isVerified: true,
+            hasHHAccount: true,
+            hhAccessToken: 'offline-access-token',
+            hhRefreshToken: 'offline-refresh-token',
+            hhTokenExpiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+            positions: [{position: 'Node.js developer', status: 'Active'}],
+            exclusionRules: {blockedEmployers: ['Blocked Corp']},
+        });
+        const user: any = await UserModel.findById(created._id).lean();
+        const position = user.positions[0];
+        const runRecord = await startRun('offline');
+
+        const quota = await new UserQuota(user).forPosition(position);
+        await processVacancies(user, position, hhService, quota, runRecord._id as mongoose.Types.ObjectId);
+
+        const applied = await VacanciesModel.find({user: String(user._id)}).lean();
+        assert.deepStrictEqual(applied.map(v => [v.vacancy_id, v.status]), [['1001', 'applied']]);
+        assert.strictEqual(applied[0].resume_id, RESUME_ID);
+        assert.ok(applied[0].cover_letter.includes('Test User'), 'the cover letter is rendered from the template');
+
+        const negotiations = stub.requests.filter(r => r.method === 'POST' && r.path === '/negotiations');
+        assert.strictEqual(negotiations.length, 1);
+        assert.ok(negotiations[0].body.includes('1001') && negotiations[0].body.includes(RESUME_ID));
+
+        const attempts = await ApplicationAttemptModel.find({run: runRecord._id}, {vacancy_id: 1, outcome: 1}).lean();
+        const outcomes = Object.fromEntries(attempts.map(a => [a.vacancy_id, a.outcome]));
+        assert.deepStrictEqual(outcomes, {'1001': 'applied', '1002': 'filtered'});
+
+        const tasks = new Set(llm.requests.map(r => r.task));
+        ['keywordExtraction', 'suitability', 'resumeSelection', 'coverLetter'].forEach(task => assert.ok(tasks.has(task as any), `${task} was requested`));
+        console.log(`Offline run passed: ${stub.requests.length} HH requests, ${llm.requests.length} LLM completions`);
+    } finally {
+        await mongoose.connection.dropDatabase().catch(() => undefined);
+        await mongoose.disconnect();
+        await stub.close();
+    }
+};
+
+run()
+    .catch(err => {
+        console.error('Offline run failed:', err);
+        process.exitCode = 1;
+    })
+    .finally(() => process.exit());
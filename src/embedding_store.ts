@@ -0,0 +1,57 @@
+import mongoose, {Schema, Document, Model} from 'mongoose';
+import {createHash} from "crypto";
+import {embedTexts, getEmbeddingModel, getLLMProvider} from "./llm";
+import {logger} from "./logger";
+
+// Vacancies stop being searched after a few days, so old vectors are only dead weight.
+const EMBEDDING_TTL_SECONDS = Number(process.env.EMBEDDING_TTL_SECONDS) || 30 * 24 * 60 * 60;
+
+export interface IEmbedding extends Document {
+    hash: string;
+    embeddingModel: string;
+    vector: number[];
+    createdAt: Date;
+}
+
+const EmbeddingSchema: Schema<IEmbedding> = new mongoose.Schema<IEmbedding>({
+    hash: {type: String, required: true},
+    embeddingModel: {type: String, required: true},
+    vector: {type: [Number], required: true},
+    createdAt: {type: Date, required: true, default: Date.now},
+});
+
+EmbeddingSchema.index({hash: 1}, {unique: true});
+EmbeddingSchema.index({createdAt: 1}, {expireAfterSeconds: EMBEDDING_TTL_SECONDS});
+
+export const EmbeddingModel: Model<IEmbedding> = mongoose.model<IEmbedding>('Embedding', EmbeddingSchema);
+
+// The model is part of the key: vectors from different models are not comparable.
+const hashText = (model: string, text: string) => createHash('sha256').update(`${model}\n${text}`).digest('hex');
+
+/**
+ * Returns one vector per text, embedding only the texts that are not cached
+ * yet. Resumes and vacancies are scored again on every run, so most lookups
+ * are hits.
+ */
+export const getEmbeddings = async (texts: string[]): Promise<number[][]> => {
+    const model = getEmbeddingModel(getLLMProvider().name);
+    const hashes = texts.map(text => hashText(model, text));
+    const cached = await EmbeddingModel.find({hash: {$in: hashes}}, {hash: 1, vector: 1}).lean();
+    const vectors = new Map(cached.map(doc => [doc.hash, doc.vector]));
+
+    const missing = [...new Set(hashes.filter(hash => !vectors.has(hash)))];
+    if (missing.length > 0) {
+        const missingTexts = missing.map(hash => texts[hashes.indexOf(hash)]);
+        const embedded = await embedTexts(missingTexts);
+        missing.forEach((hash, i) => vectors.set(hash, embedded[i]));
+        // Caching is best effort: a failed write only means the text is embedded again next time.
+        await EmbeddingModel.bulkWrite(missing.map((hash, i) => ({
+            updateOne: {
+                filter: {hash},
+                update: {$setOnInsert: {hash, embeddingModel: model, vector: embedded[i], createdAt: new Date()}},
+                upsert: true
+            }
+        })), {ordered: false}).catch(err => logger.error('Error caching embeddings', {error: err}));
+    }
+    return hashes.map(hash => vectors.get(hash) as number[]);
+};
@@ -0,0 +1,307 @@
+import mongoose, {Schema, Document, Model} from 'mongoose';
+import {instanceId} from "./run_lock";
+import {logger, withLogContext} from "./logger";
+
+// Finished jobs are only read while their run drains and when dead letters are retried, so older ones are dropped.
+const JOB_RETENTION_SECONDS = Number(process.env.JOB_RETENTION_SECONDS) || 7 * 24 * 60 * 60;
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'dead';
+
+export const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'done', 'dead'];
+
+export interface IJob extends Document {
+    type: string;
+    payload: any;
+    status: JobStatus;
+    priority: number;
+    attempts: number;
+    maxAttempts: number;
+    runAt: Date;
+    // Set while the job is queued or running, so the same work cannot be queued twice.
+    activeKey?: string;
+    run?: mongoose.Types.ObjectId;
+    lockedBy?: string;
+    lockedUntil?: Date;
+    lastError?: string;
+    finishedAt?: Date;
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+const JobSchema: Schema<IJob> = new mongoose.Schema<IJob>(
+    {
+        type: {type: String, required: true},
+        payload: {type: Schema.Types.Mixed, default: {}},
+        status: {type: String, enum: JOB_STATUSES, default: 'queued'},
+        priority: {type: Number, default: 0},
+        attempts: {type: Number, default: 0},
+        maxAttempts: {type: Number, default: 3},
+        runAt: {type: Date, required: true, default: Date.now},
+        activeKey: {type: String},
+        run: {type: Schema.Types.ObjectId, ref: 'Run'},
+        lockedBy: {type: String},
+        lockedUntil: {type: Date},
+        lastError: {type: String},
+        finishedAt: {type: Date},
+    },
+    {
+        timestamps: true,
+    }
+);
+
+JobSchema.index({status: 1, priority: -1, runAt: 1});
+JobSchema.index({status: 1, lockedUntil: 1});
+JobSchema.index({run: 1, status: 1});
+JobSchema.index({activeKey: 1}, {unique: true, sparse: true});
+// Only done and dead jobs have finishedAt; a retried dead job loses it again.
+JobSchema.index({finishedAt: 1}, {expireAfterSeconds: JOB_RETENTION_SECONDS});
+
+export const JobModel: Model<IJob> = mongoose.model<IJob>('Job', JobSchema);
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+export interface EnqueueOptions {
+    /** Higher runs first. */
+    priority?: number;
+    maxAttempts?: number;
+    /** Skips the job when one with the same key is still queued or running. */
+    key?: string;
+    run?: mongoose.Types.ObjectId;
+    delayMs?: number;
+}
+
+const toJobDoc = (type: string, payload: any, options: EnqueueOptions = {}) => ({
+    type,
+    payload,
+    priority: options.priority ?? 0,
+    maxAttempts: options.maxAttempts ?? 3,
+    activeKey: options.key,
+    run: options.run,
+    runAt: new Date(Date.now() + (options.delayMs || 0)),
+});
+
+/** Adds a job, or returns null when an active job with the same key already exists. */
+export const enqueueJob = async (type: string, payload: any, options: EnqueueOptions = {}): Promise<IJob | null> => {
+    try {
+        return await JobModel.create(toJobDoc(type, payload, options));
+    } catch (err: any) {
+        if (err?.code === DUPLICATE_KEY_ERROR) return null;
+        throw err;
+    }
+};
+
+export interface JobSpec {
+    type: string;
+    payload: any;
+    options?: EnqueueOptions;
+}
+
+/** Adds many jobs in one round trip. Returns the indexes of the specs skipped because an active duplicate exists. */
+export const enqueueJobs = async (specs: JobSpec[]): Promise<Set<number>> => {
+    if (specs.length === 0) return new Set();
+    try {
+        await JobModel.insertMany(specs.map(spec => toJobDoc(spec.type, spec.payload, spec.options)), {ordered: false});
+        return new Set();
+    } catch (err: any) {
+        const writeErrors: any[] = err?.writeErrors || [];
+        if (writeErrors.length === 0 || writeErrors.some(e => e.code !== DUPLICATE_KEY_ERROR)) throw err;
+        return new Set(writeErrors.map(e => e.index));
+    }
+};
+
+export const hasActiveJobs = async (run: mongoose.Types.ObjectId): Promise<boolean> => {
+    return !!(await JobModel.exists({run, status: {$in: ['queued', 'running']}}));
+};
+
+export const getQueueStats = async (): Promise<{ [status: string]: number }> => {
+    const counts = await JobModel.aggregate([{$group: {_id: '$status', count: {$sum: 1}}}]);
+    const stats: { [status: string]: number } = Object.fromEntries(JOB_STATUSES.map(status => [status, 0]));
+    counts.forEach((c: any) => stats[c._id] = c.count);
+    return stats;
+};
+
+/** Puts a dead job back in the queue with a fresh set of attempts. */
+export const retryDeadJob = async (jobId: string): Promise<IJob | null> => {
+    return JobModel.findOneAndUpdate(
+        {_id: jobId, status: 'dead'},
+        {$set: {status: 'queued', attempts: 0, runAt: new Date()}, $unset: {lastError: 1, finishedAt: 1}},
+        {new: true}
+    );
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export type JobHandler = (job: IJob) => Promise<void>;
+
+export interface QueueWorkerOptions {
+    concurrency?: number;
+    pollMs?: number;
+    /** How long a claimed job stays invisible to other workers without a heartbeat. */
+    visibilityMs?: number;
+    heartbeatMs?: number;
+    retryBackoffMs?: number;
+    /** Called once a job is done or dead, e.g. to finish the run it belonged to. */
+    onSettled?: (job: IJob) => Promise<void>;
+}
+
+/**
+ * Claims and runs jobs from JobModel. A claimed job is hidden for
+ * `visibilityMs` and kept hidden by a heartbeat while its handler runs, so a
+ * job whose worker crashed or was redeployed becomes claimable again once the
+ * timeout passes. Failed jobs are retried with backoff and dead-lettered after
+ * `maxAttempts`.
+ */
+export class QueueWorker {
+    private readonly concurrency: number;
+    private readonly pollMs: number;
+    private readonly visibilityMs: number;
+    private readonly heartbeatMs: number;
+    private readonly retryBackoffMs: number;
+    private readonly onSettled?: (job: IJob) => Promise<void>;
+    private running = false;
+    private loops: Promise<void>[] = [];
+    private sweeper?: NodeJS.Timeout;
+
+    constructor(private readonly handlers: { [type: string]: JobHandler }, options: QueueWorkerOptions = {}) {
+        this.concurrency = options.concurrency ?? (Number(process.env.JOB_QUEUE_CONCURRENCY) || 10);
+        this.pollMs = options.pollMs ?? (Number(process.env.JOB_QUEUE_POLL_MS) || 1000);
+        this.visibilityMs = options.visibilityMs ?? (Number(process.env.JOB_VISIBILITY_TIMEOUT_MS) || 5 * 60 * 1000);
+        this.heartbeatMs = options.heartbeatMs ?? Math.floor(this.visibilityMs / 3);
+        this.retryBackoffMs = options.retryBackoffMs ?? 30 * 1000;
+        this.onSettled = options.onSettled;
+    }
+
+    get isRunning(): boolean {
+        return this.running;
+    }
+
+    start = () => {
+        if (this.running) return;
+        this.running = true;
+        this.loops = Array.from({length: this.concurrency}, () => this.loop());
+        this.sweeper = setInterval(() => this.deadLetterExpired(), this.visibilityMs);
+        this.sweeper.unref();
+    }
+
+    /** Stops claiming new jobs and waits for the ones in hand to finish. */
+    stop = async () => {
+        this.running = false;
+        if (this.sweeper) clearInterval(this.sweeper);
+        await Promise.all(this.loops);
+    }
+
+    private loop = async () => {
+        while (this.running) {
+            let job: IJob | null = null;
+            try {
+                job = await this.claimNext();
+            } catch (err) {
+                logger.error('Error claiming job', {error: err});
+            }
+            if (!job) {
+                await sleep(this.pollMs);
+                continue;
+            }
+            await this.process(job);
+        }
+    }
+
+    private claimNext = async (): Promise<IJob | null> => {
+        const now = new Date();
+        return JobModel.findOneAndUpdate(
+            {
+                type: {$in: Object.keys(this.handlers)},
+                $or: [{status: 'queued', runAt: {$lte: now}}, {status: 'running', lockedUntil: {$lte: now}}],
+                $expr: {$lt: ['$attempts', '$maxAttempts']},
+            },
+            {
+                $set: {status: 'running', lockedBy: instanceId, lockedUntil: new Date(now.getTime() + this.visibilityMs)},
+                $inc: {attempts: 1},
+            },
+            {sort: {priority: -1, runAt: 1}, new: true}
+        );
+    }
+
+    // Never rejects: a rejection here would end the worker loop that called it.
+    private process = async (job: IJob) => {
+        const heartbeat = setInterval(async () => {
+            try {
+                await JobModel.updateOne(
+                    {_id: job._id, lockedBy: instanceId},
+                    {$set: {lockedUntil: new Date(Date.now() + this.visibilityMs)}}
+                );
+            } catch (err) {
+                logger.error('Error extending job visibility', {error: err});
+            }
+        }, this.heartbeatMs);
+        heartbeat.unref();
+
+        let settled = false;
+        try {
+            let succeeded = false;
+            try {
+                await withLogContext({jobId: String(job._id), runId: job.run ? String(job.run) : undefined}, () => this.handlers[job.type](job));
+                succeeded = true;
+            } catch (err: any) {
+                logger.error('Job failed', {type: job.type, attempt: job.attempts, maxAttempts: job.maxAttempts, error: err});
+                settled = await this.fail(job, err);
+            }
+            // The work is done, so a failed write must not send it back to the queue; the job stays
+            // running until its lock expires and is then retried or dead-lettered like a crashed one.
+            if (succeeded) settled = await this.complete(job);
+        } catch (err) {
+            logger.error('Error recording job result', {jobId: job._id, error: err});
+        } finally {
+            clearInterval(heartbeat);
+        }
+        if (settled && this.onSettled) {
+            await this.onSettled(job).catch(err => logger.error('Error in job settle hook', {error: err}));
+        }
+    }
+
+    // Both transitions are conditional on still holding the job, so a worker that lost it cannot overwrite the new owner.
+    private complete = async (job: IJob): Promise<boolean> => {
+        const result = await JobModel.updateOne(
+            {_id: job._id, lockedBy: instanceId, status: 'running'},
+            {$set: {status: 'done', finishedAt: new Date()}, $unset: {activeKey: 1, lockedBy: 1, lockedUntil: 1}}
+        );
+        return result.modifiedCount === 1;
+    }
+
+    private fail = async (job: IJob, err: any): Promise<boolean> => {
+        const dead = job.attempts >= job.maxAttempts;
+        const update = dead
+            ? {$set: {status: 'dead', lastError: err?.message, finishedAt: new Date()}, $unset: {activeKey: 1, lockedBy: 1, lockedUntil: 1}}
+            : {
+                $set: {status: 'queued', lastError: err?.message, runAt: new Date(Date.now() + this.retryBackoffMs * 2 ** (job.attempts - 1))},
+                $unset: {lockedBy: 1, lockedUntil: 1}
+            };
+        const result = await JobModel.updateOne({_id: job._id, lockedBy: instanceId, status: 'running'}, update);
+        return dead && result.modifiedCount === 1;
+    }
+
+    /** Jobs whose worker died on the last attempt are never claimed again, so move them to the dead letters here. */
+    private deadLetterExpired = async () => {
+        try {
+            const expired = await JobModel.find({
+                status: 'running',
+                lockedUntil: {$lte: new Date()},
+                $expr: {$gte: ['$attempts', '$maxAttempts']},
+            });
+            for (const job of expired) {
+                const result = await JobModel.updateOne(
+                    {_id: job._id, status: 'running', lockedUntil: job.lockedUntil},
+                    {
+                        $set: {status: 'dead', lastError: 'Worker stopped responding on the last attempt', finishedAt: new Date()},
+                        $unset: {activeKey: 1, lockedBy: 1, lockedUntil: 1}
+                    }
+                );
+                if (result.modifiedCount === 1 && this.onSettled) {
+                    await this.onSettled(job).catch(err => logger.error('Error in job settle hook', {jobId: job._id, error: err}));
+                }
+            }
+        } catch (err) {
+            logger.error('Error dead-lettering expired jobs', {error: err});
+        }
+    }
+}
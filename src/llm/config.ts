@@ -0,0 +1,45 @@
+import {LLMTask} from "./types";
+
+const DEFAULT_MODELS: Record<string, Record<LLMTask, string>> = {
+    openai: {
+        suitability: 'gpt-4o-mini',
+        keywordExtraction: 'gpt-4o-mini',
+        resumeSelection: 'gpt-3.5-turbo',
+        coverLetter: 'gpt-4o-mini'
+    },
+    gemini: {
+        suitability: 'gemini-1.5-flash',
+        keywordExtraction: 'gemini-1.5-flash',
+        resumeSelection: 'gemini-1.5-flash',
+        coverLetter: 'gemini-1.5-pro'
+    },
+    fake: {
+        suitability: 'fake',
+        keywordExtraction: 'fake',
+        resumeSelection: 'fake',
+        coverLetter: 'fake'
+    }
+};
+
+const TASK_ENV: Record<LLMTask, string> = {
+    suitability: 'LLM_MODEL_SUITABILITY',
+    keywordExtraction: 'LLM_MODEL_KEYWORD_EXTRACTION',
+    resumeSelection: 'LLM_MODEL_RESUME_SELECTION',
+    coverLetter: 'LLM_MODEL_COVER_LETTER'
+};
+
+export const getProviderName = (): string => (process.env.LLM_PROVIDER || 'openai').toLowerCase();
+
+export const getModelForTask = (task: LLMTask, providerName: string = getProviderName()): string => {
+    return process.env[TASK_ENV[task]] || DEFAULT_MODELS[providerName]?.[task] || DEFAULT_MODELS.openai[task];
+};
+
+const DEFAULT_EMBEDDING_MODELS: Record<string, string> = {
+    openai: 'text-embedding-3-small',
+    gemini: 'text-embedding-004',
+    fake: 'fake'
+};
+
+export const getEmbeddingModel = (providerName: string = getProviderName()): string => {
+    return process.env.LLM_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[providerName] || DEFAULT_EMBEDDING_MODELS.openai;
+};
@@ -0,0 +1,34 @@
+export class LLMError extends Error {
+    constructor(message: string, readonly attempts: number) {
+        super(message);
+        this.name = 'LLMError';
+    }
+}
+
+/** The model answered, but never with output matching the schema. */
+export class LLMOutputError extends LLMError {
+    constructor(message: string, attempts: number, readonly rawOutput: string | null) {
+        super(message, attempts);
+        this.name = 'LLMOutputError';
+    }
+}
+
+/** The completion request itself kept failing (network, rate limit, server error). */
+export class LLMRequestError extends LLMError {
+    constructor(message: string, attempts: number, readonly cause?: unknown) {
+        super(message, attempts);
+        this.name = 'LLMRequestError';
+    }
+}
+
+/** Raised by providers so retry decisions do not depend on a vendor SDK's error types. */
+export class LLMProviderError extends Error {
+    constructor(message: string, readonly status?: number, readonly cause?: unknown) {
+        super(message);
+        this.name = 'LLMProviderError';
+    }
+
+    get retryable(): boolean {
+        return this.status === undefined || this.status === 429 || this.status >= 500;
+    }
+}
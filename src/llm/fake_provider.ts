@@ -0,0 +1,60 @@
+import {CompletionRequest, CompletionResult, EmbeddingRequest, EmbeddingResult, LLMProvider, LLMTask} from "./types";
+
+export type FakeResponder = (prompt: string, request: CompletionRequest) => string;
+
+const lastUserMessage = (request: CompletionRequest) =>
+    [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+
+const FAKE_EMBEDDING_SIZE = 64;
+
+// Hashed bag of words: texts sharing words get similar vectors, which is enough to exercise ranking.
+const fakeEmbedding = (text: string): number[] => {
+    const vector = new Array(FAKE_EMBEDDING_SIZE).fill(0);
+    for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)) {
+        let hash = 0;
+        for (let i = 0; i < word.length; i++) hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+        vector[hash % FAKE_EMBEDDING_SIZE] += 1;
+    }
+    return vector;
+};
+
+const defaultResponders: Record<LLMTask, FakeResponder> = {
+    suitability: () => JSON.stringify({isSuitable: true, reason: 'Fake provider accepts every vacancy'}),
+    keywordExtraction: prompt => {
+        const match = prompt.match(/user wanted position text:\s*(.+)/);
+        return JSON.stringify({position: match ? match[1].trim() : 'developer'});
+    },
+    resumeSelection: prompt => {
+        const match = prompt.match(/Resume ID:\s*(\S+)/);
+        return JSON.stringify({resumeId: match ? match[1] : null});
+    },
+    coverLetter: () => JSON.stringify({body: 'Это тестовое сопроводительное письмо.', skills: []})
+};
+
+/**
+ * Deterministic offline provider for local runs and CI. Responses are derived
+ * from the prompt only, and any task can be overridden.
+ */
+export class FakeLLMProvider implements LLMProvider {
+    readonly name = 'fake';
+    readonly requests: CompletionRequest[] = [];
+    private readonly responders: Record<LLMTask, FakeResponder>;
+
+    constructor(overrides: Partial<Record<LLMTask, FakeResponder>> = {}) {
+        this.responders = {...defaultResponders, ...overrides};
+    }
+
+    complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+        this.requests.push(request);
+        const prompt = lastUserMessage(request);
+        const content = this.responders[request.task](prompt, request);
+        return {
+            content,
+            usage: {promptTokens: Math.ceil(prompt.length / 4), completionTokens: Math.ceil(content.length / 4)}
+        };
+    }
+
+    embed = async (request: EmbeddingRequest): Promise<EmbeddingResult> => {
+        return {vectors: request.texts.map(fakeEmbedding)};
+    }
+}
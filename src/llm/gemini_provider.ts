@@ -0,0 +1,64 @@
+import {ChatGoogleGenerativeAI, GoogleGenerativeAIEmbeddings} from "@langchain/google-genai";
+import {LLMProviderError} from "./errors";
+import {CompletionRequest, CompletionResult, EmbeddingRequest, EmbeddingResult, LLMProvider} from "./types";
+
+// This client has no JSON mode, and Gemini often wraps a JSON answer in a Markdown code fence.
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/i, '$1');
+
+export class GeminiProvider implements LLMProvider {
+    readonly name = 'gemini';
+    private readonly apiKey?: string;
+
+    constructor(apiKey: string | undefined = process.env.GOOGLE_API_KEY) {
+        this.apiKey = apiKey;
+    }
+
+    complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+        const model = new ChatGoogleGenerativeAI({
+            apiKey: this.apiKey,
+            model: request.model,
+            temperature: request.temperature ?? 0.3,
+            // Retries are handled by the shared client.
+            maxRetries: 0
+        });
+
+        // Gemini has no system role, so instructions are folded into the first user turn.
+        const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+        const conversation = request.messages
+            .filter(m => m.role !== 'system')
+            .map((m, index): [string, string] => [
+                m.role === 'assistant' ? 'ai' : 'human',
+                index === 0 && system ? `${system}\n\n${m.content}` : m.content
+            ]);
+
+        try {
+            const response = await model.invoke(conversation);
+            const usage: any = (response as any).usage_metadata;
+            const content = typeof response.content === 'string'
+                ? response.content
+                : response.content.map((part: any) => part.text || '').join('');
+            return {
+                content: request.json ? stripCodeFence(content) : content,
+                usage: usage ? {
+                    promptTokens: usage.input_tokens ?? usage.promptTokenCount ?? 0,
+                    completionTokens: usage.output_tokens ?? usage.candidatesTokenCount ?? 0
+                } : undefined
+            };
+        } catch (err: any) {
+            throw new LLMProviderError(`Gemini request failed: ${err?.message}`, err?.status, err);
+        }
+    }
+
+    embed = async (request: EmbeddingRequest): Promise<EmbeddingResult> => {
+        const model = new GoogleGenerativeAIEmbeddings({
+            apiKey: this.apiKey,
+            model: request.model,
+            maxRetries: 0
+        });
+        try {
+            return {vectors: await model.embedDocuments(request.texts)};
+        } catch (err: any) {
+            throw new LLMProviderError(`Gemini embedding request failed: ${err?.message}`, err?.status, err);
+        }
+    }
+}
@@ -0,0 +1,164 @@
+import dotenv from "dotenv";
+import {z} from "zod";
+import {zodToJsonSchema} from "zod-to-json-schema";
+import {getEmbeddingModel, getModelForTask, getProviderName} from "./config";
+import {LLMOutputError, LLMProviderError, LLMRequestError} from "./errors";
+import {FakeLLMProvider} from "./fake_provider";
+import {GeminiProvider} from "./gemini_provider";
+import {OpenAIProvider} from "./openai_provider";
+import {ChatMessage, CompletionResult, LLMProvider, LLMTask} from "./types";
+import {llmRequestsTotal, llmTokensTotal} from "../metrics";
+import {recordLLMUsage} from "../llm_usage";
+
+dotenv.config();
+
+export * from "./types";
+export * from "./errors";
+export {getEmbeddingModel, getModelForTask} from "./config";
+export {OpenAIProvider} from "./openai_provider";
+export {GeminiProvider} from "./gemini_provider";
+export {FakeLLMProvider} from "./fake_provider";
+
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 500;
+
+const createProvider = (name: string): LLMProvider => {
+    switch (name) {
+        case 'gemini':
+            return new GeminiProvider();
+        case 'fake':
+            return new FakeLLMProvider();
+        case 'openai':
+            return new OpenAIProvider();
+        default:
+            throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+    }
+};
+
+let provider: LLMProvider | undefined;
+
+export const getLLMProvider = (): LLMProvider => {
+    if (!provider) {
+        provider = createProvider(getProviderName());
+    }
+    return provider;
+};
+
+/** Replaces the provider chosen from the environment, e.g. with a FakeLLMProvider. */
+export const setLLMProvider = (next: LLMProvider) => {
+    provider = next;
+};
+
+export interface CompletionOptions {
+    task: LLMTask;
+    prompt: string;
+    temperature?: number;
+    maxRetries?: number;
+}
+
+export interface StructuredCompletionOptions<T> extends CompletionOptions {
+    schema: z.ZodType<T>;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const backoff = (attempt: number) => sleep(BASE_BACKOFF_MS * 2 ** (attempt - 1));
+
+const request = async (options: CompletionOptions, messages: ChatMessage[], json: boolean, attempt: number, maxRetries: number): Promise<CompletionResult | null> => {
+    const llm = getLLMProvider();
+    const model = getModelForTask(options.task, llm.name);
+    try {
+        const result = await llm.complete({
+            task: options.task,
+            model,
+            messages,
+            temperature: options.temperature,
+            json
+        });
+        llmRequestsTotal.inc({provider: llm.name, task: options.task, result: 'success'});
+        if (result.usage) {
+            llmTokensTotal.inc({provider: llm.name, task: options.task, type: 'prompt'}, result.usage.promptTokens);
+            llmTokensTotal.inc({provider: llm.name, task: options.task, type: 'completion'}, result.usage.completionTokens);
+            void recordLLMUsage({provider: llm.name, model, task: options.task, ...result.usage});
+        }
+        return result;
+    } catch (err: any) {
+        llmRequestsTotal.inc({provider: llm.name, task: options.task, result: 'error'});
+        const retryable = !(err instanceof LLMProviderError) || err.retryable;
+        if (attempt === maxRetries || !retryable) {
+            throw new LLMRequestError(`Completion request failed: ${err?.message}`, attempt, err);
+        }
+        await backoff(attempt);
+        return null;
+    }
+};
+
+/**
+ * Requests a JSON-mode completion and validates it against `schema`.
+ * Invalid output and transient request failures are retried with exponential
+ * backoff; once retries run out a typed LLMError is thrown.
+ */
+export const completeStructured = async <T>(options: StructuredCompletionOptions<T>): Promise<T> => {
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const jsonSchema = JSON.stringify(zodToJsonSchema(options.schema, {target: 'openApi3'}));
+    const messages: ChatMessage[] = [
+        {
+            role: 'system',
+            content: `Respond with a single JSON object that matches this JSON schema: ${jsonSchema}`
+        },
+        {role: 'user', content: options.prompt}
+    ];
+
+    let lastOutput: string | null = null;
+    let lastIssue = '';
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+        const result = await request(options, messages, true, attempt, maxRetries);
+        if (!result) continue;
+
+        lastOutput = result.content;
+        try {
+            const parsed = options.schema.safeParse(JSON.parse(result.content || ''));
+            if (parsed.success) {
+                return parsed.data;
+            }
+            lastIssue = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+        } catch (err: any) {
+            lastIssue = `Invalid JSON: ${err?.message}`;
+        }
+
+        if (attempt < maxRetries) {
+            await backoff(attempt);
+        }
+    }
+
+    throw new LLMOutputError(`Model output did not match the schema: ${lastIssue}`, maxRetries, lastOutput);
+};
+
+/** Embeds texts in one request, retrying transient provider failures like the completion helpers. */
+export const embedTexts = async (texts: string[], maxRetries: number = DEFAULT_MAX_RETRIES): Promise<number[][]> => {
+    if (texts.length === 0) return [];
+    const llm = getLLMProvider();
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const model = getEmbeddingModel(llm.name);
+            const result = await llm.embed({model, texts});
+            llmRequestsTotal.inc({provider: llm.name, task: 'embedding', result: 'success'});
+            if (result.usage) {
+                llmTokensTotal.inc({provider: llm.name, task: 'embedding', type: 'prompt'}, result.usage.promptTokens);
+                void recordLLMUsage({provider: llm.name, model, task: 'embedding', promptTokens: result.usage.promptTokens});
+            }
+            if (result.vectors.length !== texts.length) {
+                throw new LLMOutputError(`Expected ${texts.length} embeddings, got ${result.vectors.length}`, attempt, null);
+            }
+            return result.vectors;
+        } catch (err: any) {
+            if (err instanceof LLMOutputError) throw err;
+            llmRequestsTotal.inc({provider: llm.name, task: 'embedding', result: 'error'});
+            const retryable = !(err instanceof LLMProviderError) || err.retryable;
+            if (attempt >= maxRetries || !retryable) {
+                throw new LLMRequestError(`Embedding request failed: ${err?.message}`, attempt, err);
+            }
+            await backoff(attempt);
+        }
+    }
+};
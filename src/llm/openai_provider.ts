@@ -0,0 +1,48 @@
+import OpenAI from "openai";
+import {LLMProviderError} from "./errors";
+import {CompletionRequest, CompletionResult, EmbeddingRequest, EmbeddingResult, LLMProvider} from "./types";
+
+export class OpenAIProvider implements LLMProvider {
+    readonly name = 'openai';
+    private readonly client: OpenAI;
+
+    constructor(client?: OpenAI) {
+        this.client = client || new OpenAI({
+            apiKey: process.env.OPENAI_API_KEY as string
+        });
+    }
+
+    complete = async (request: CompletionRequest): Promise<CompletionResult> => {
+        try {
+            const completion = await this.client.chat.completions.create({
+                model: request.model,
+                messages: request.messages,
+                temperature: request.temperature ?? 0.3,
+                response_format: request.json ? {type: 'json_object'} : undefined
+            });
+            return {
+                content: completion.choices[0].message.content,
+                usage: completion.usage ? {
+                    promptTokens: completion.usage.prompt_tokens,
+                    completionTokens: completion.usage.completion_tokens
+                } : undefined
+            };
+        } catch (err: any) {
+            const status = err instanceof OpenAI.APIError ? err.status : undefined;
+            throw new LLMProviderError(`OpenAI request failed: ${err?.message}`, status, err);
+        }
+    }
+
+    embed = async (request: EmbeddingRequest): Promise<EmbeddingResult> => {
+        try {
+            const response = await this.client.embeddings.create({model: request.model, input: request.texts});
+            return {
+                vectors: response.data.sort((a, b) => a.index - b.index).map(item => item.embedding),
+                usage: {promptTokens: response.usage.prompt_tokens}
+            };
+        } catch (err: any) {
+            const status = err instanceof OpenAI.APIError ? err.status : undefined;
+            throw new LLMProviderError(`OpenAI embedding request failed: ${err?.message}`, status, err);
+        }
+    }
+}
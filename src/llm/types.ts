@@ -0,0 +1,44 @@
+export type LLMTask = 'suitability' | 'keywordExtraction' | 'resumeSelection' | 'coverLetter';
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface CompletionRequest {
+    task: LLMTask;
+    model: string;
+    messages: ChatMessage[];
+    temperature?: number;
+    /** Ask the provider for a JSON object instead of free text. */
+    json?: boolean;
+}
+
+export interface CompletionUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface CompletionResult {
+    content: string | null;
+    usage?: CompletionUsage;
+}
+
+export interface EmbeddingRequest {
+    model: string;
+    texts: string[];
+}
+
+export interface EmbeddingResult {
+    /** One vector per input text, in the same order. */
+    vectors: number[][];
+    usage?: { promptTokens: number };
+}
+
+export interface LLMProvider {
+    readonly name: string;
+
+    complete(request: CompletionRequest): Promise<CompletionResult>;
+
+    embed(request: EmbeddingRequest): Promise<EmbeddingResult>;
+}
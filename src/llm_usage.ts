@@ -0,0 +1,103 @@
+import mongoose, {Schema, Document, Model} from 'mongoose';
+import {getLogContext, logger} from "./logger";
+
+export interface ILLMUsage extends Document {
+    user?: string;
+    position_id?: string;
+    run?: mongoose.Types.ObjectId;
+    provider: string;
+    llmModel: string;
+    task: string;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    createdAt?: Date;
+}
+
+const LLMUsageSchema: Schema<ILLMUsage> = new mongoose.Schema<ILLMUsage>(
+    {
+        user: {type: String, ref: 'User'},
+        position_id: {type: String},
+        run: {type: Schema.Types.ObjectId, ref: 'Run'},
+        provider: {type: String, required: true},
+        llmModel: {type: String, required: true},
+        task: {type: String, required: true},
+        promptTokens: {type: Number, default: 0},
+        completionTokens: {type: Number, default: 0},
+        costUsd: {type: Number, default: 0},
+    },
+    {
+        timestamps: {createdAt: true, updatedAt: false},
+    }
+);
+
+LLMUsageSchema.index({user: 1, createdAt: -1});
+
+export const LLMUsageModel: Model<ILLMUsage> = mongoose.model<ILLMUsage>('LLMUsage', LLMUsageSchema);
+
+export interface ModelPrice {
+    /** USD per million prompt tokens. */
+    prompt: number;
+    /** USD per million completion tokens. */
+    completion: number;
+}
+
+const DEFAULT_PRICES: { [model: string]: ModelPrice } = {
+    'gpt-4o-mini': {prompt: 0.15, completion: 0.6},
+    'gpt-4o': {prompt: 2.5, completion: 10},
+    'gpt-3.5-turbo': {prompt: 0.5, completion: 1.5},
+    'text-embedding-3-small': {prompt: 0.02, completion: 0},
+    'gemini-1.5-flash': {prompt: 0.075, completion: 0.3},
+    'gemini-1.5-pro': {prompt: 1.25, completion: 5},
+    'text-embedding-004': {prompt: 0, completion: 0},
+};
+
+/** Model prices, overridable with a JSON object in LLM_PRICES keyed by model name. */
+const getPrices = (): { [model: string]: ModelPrice } => {
+    if (!process.env.LLM_PRICES) return DEFAULT_PRICES;
+    try {
+        return {...DEFAULT_PRICES, ...JSON.parse(process.env.LLM_PRICES)};
+    } catch (err) {
+        logger.error('LLM_PRICES is not valid JSON, using default prices', {error: err});
+        return DEFAULT_PRICES;
+    }
+};
+
+export const estimateCostUsd = (model: string, promptTokens: number, completionTokens: number): number => {
+    const price = getPrices()[model];
+    if (!price) return 0;
+    return (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000;
+};
+
+export interface LLMUsageEntry {
+    provider: string;
+    model: string;
+    task: string;
+    promptTokens: number;
+    completionTokens?: number;
+}
+
+/**
+ * Stores one request's token usage, attributed to the user, position and run
+ * of the current log context. Best effort and not awaited by callers, so it
+ * never slows down or fails an LLM call.
+ */
+export const recordLLMUsage = async (entry: LLMUsageEntry) => {
+    const context = getLogContext();
+    const completionTokens = entry.completionTokens || 0;
+    try {
+        await LLMUsageModel.create({
+            user: context.userId,
+            position_id: context.positionId,
+            run: context.runId && mongoose.isValidObjectId(context.runId) ? context.runId : undefined,
+            provider: entry.provider,
+            llmModel: entry.model,
+            task: entry.task,
+            promptTokens: entry.promptTokens,
+            completionTokens,
+            costUsd: estimateCostUsd(entry.model, entry.promptTokens, completionTokens),
+        });
+    } catch (err) {
+        logger.error('Error recording LLM usage', {error: err});
+    }
+};
@@ -0,0 +1,82 @@
+import {AsyncLocalStorage} from "async_hooks";
+import axios from "axios";
+import {redactSecrets} from "./secrets";
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: { [level in LogLevel]: number } = {debug: 10, info: 20, warn: 30, error: 40};
+const MIN_LEVEL = LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LEVELS.info;
+// Provider error bodies are useful to debug a rejected request, but some are whole HTML pages.
+const MAX_RESPONSE_DATA_LENGTH = 1000;
+
+/** Correlation ids carried by every line logged inside withLogContext. */
+export interface LogContext {
+    runId?: string;
+    jobId?: string;
+    userId?: string;
+    positionId?: string;
+}
+
+export type LogFields = { [key: string]: any };
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+/** Runs `fn` with the ids merged into the current context, so nested calls log them without passing them down. */
+export const withLogContext = <T>(context: LogContext, fn: () => T): T => {
+    const merged: LogContext = {...storage.getStore()};
+    Object.entries(context).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) merged[key as keyof LogContext] = String(value);
+    });
+    return storage.run(merged, fn);
+};
+
+export const getLogContext = (): LogContext => ({...storage.getStore()});
+
+const truncate = (value: string) => value.length > MAX_RESPONSE_DATA_LENGTH ? `${value.slice(0, MAX_RESPONSE_DATA_LENGTH)}…` : value;
+
+/**
+ * Keeps what helps to debug an error. Axios errors are reduced to the status,
+ * method, path and response body: their config and request carry the
+ * Authorization header, and the query string can carry user input.
+ */
+export const serializeError = (err: unknown): LogFields => {
+    if (axios.isAxiosError(err)) {
+        const data = err.response?.data;
+        return {
+            name: 'AxiosError',
+            message: err.message,
+            code: err.code,
+            status: err.response?.status,
+            method: err.config?.method?.toUpperCase(),
+            path: err.config?.url?.split('?')[0],
+            responseData: data === undefined ? undefined : truncate(typeof data === 'string' ? data : JSON.stringify(data)),
+        };
+    }
+    if (err instanceof Error) {
+        return {name: err.name, message: err.message, stack: err.stack};
+    }
+    return {message: String(err)};
+};
+
+const write = (level: LogLevel, message: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < MIN_LEVEL) return;
+    const {error, ...rest} = fields;
+    const entry = {
+        time: new Date().toISOString(),
+        level,
+        message,
+        ...storage.getStore(),
+        ...redactSecrets(rest),
+        ...(error !== undefined ? {error: redactSecrets(serializeError(error))} : {}),
+    };
+    const stream = LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout;
+    stream.write(`${JSON.stringify(entry)}\n`);
+};
+
+/** One JSON object per line, with secrets redacted. Pass a caught error as `fields.error`; it is serialized safely. */
+export const logger = {
+    debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+    info: (message: string, fields?: LogFields) => write('info', message, fields),
+    warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+    error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
@@ -0,0 +1,125 @@
+import {IPositionFilters} from "./models";
+import {ProviderVacancy} from "./providers";
+import {getEmbeddings} from "./embedding_store";
+import {logger} from "./logger";
+
+const SIMILARITY_WEIGHT = 0.7;
+const SALARY_WEIGHT = 0.2;
+const FILTER_WEIGHT = 0.1;
+
+// Embedding models cap their input; the start of a resume carries the title and the most recent experience.
+const MAX_EMBEDDING_CHARS = 8000;
+
+/** Vacancies scoring below this are recorded as filtered without an LLM suitability check. */
+export const MIN_MATCH_SCORE = Number(process.env.MIN_MATCH_SCORE) || 0;
+
+export interface MatchScore {
+    /** 0..1, higher is a better match. */
+    score: number;
+    /** Best cosine similarity against the user's resumes; missing when embedding failed. */
+    similarity?: number;
+    salaryFit: number;
+    filterFit: number;
+    explanation: string;
+}
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 0;
+    return dot / Math.sqrt(normA * normB);
+};
+
+const stripHighlights = (value?: string | null) => (value || '').replace(/<\/?highlighttext>/g, '');
+
+const vacancyText = (vacancy: ProviderVacancy) => [
+    vacancy.name,
+    stripHighlights(vacancy.snippet?.requirement),
+    stripHighlights(vacancy.snippet?.responsibility)
+].filter(Boolean).join('\n');
+
+/**
+ * How well the pay meets the position's salary. Hard limits are enforced by
+ * matchesPositionFilters; this only ranks what passed. Vacancies without a
+ * comparable salary get a neutral 0.5.
+ */
+export const salaryFit = (vacancy: ProviderVacancy, filters: IPositionFilters = {}): number => {
+    if (!filters.salaryFrom) return 1;
+    const salary = vacancy.salary;
+    const guaranteed = salary?.from ?? salary?.to;
+    if (guaranteed == null) return 0.5;
+    if (filters.currency && salary?.currency && filters.currency !== salary.currency) return 0.5;
+    return Math.min(1, guaranteed / filters.salaryFrom);
+};
+
+/**
+ * Share of the position's filters the vacancy is known to meet. Fields the
+ * vacancy does not carry count as half. Areas are not scored: the search
+ * already applies them, and vacancies carry a city id rather than the chosen region.
+ */
+export const filterFit = (vacancy: ProviderVacancy, filters: IPositionFilters = {}): number => {
+    const checks: number[] = [];
+    const check = (wanted: boolean, value: string | undefined, matches: (value: string) => boolean) => {
+        if (!wanted) return;
+        checks.push(value ? (matches(value) ? 1 : 0) : 0.5);
+    };
+    check(!!filters.experience, vacancy.experience?.id, id => id === filters.experience);
+    check(!!filters.employment?.length, vacancy.employment?.id, id => !!filters.employment?.includes(id));
+    check(!!filters.schedule?.length, vacancy.schedule?.id, id => !!filters.schedule?.includes(id));
+    if (checks.length === 0) return 1;
+    return checks.reduce((sum, value) => sum + value, 0) / checks.length;
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const combine = (salary: number, filters: number, similarity?: number): MatchScore => {
+    // Without a similarity the remaining weights are scaled up, so scores stay on the same 0..1 scale.
+    const score = similarity === undefined
+        ? (salary * SALARY_WEIGHT + filters * FILTER_WEIGHT) / (SALARY_WEIGHT + FILTER_WEIGHT)
+        : similarity * SIMILARITY_WEIGHT + salary * SALARY_WEIGHT + filters * FILTER_WEIGHT;
+    const parts = [
+        similarity === undefined ? 'resume similarity unavailable' : `resume similarity ${percent(similarity)}`,
+        `salary fit ${percent(salary)}`,
+        `filter fit ${percent(filters)}`
+    ];
+    return {
+        score: Math.round(score * 1000) / 1000,
+        similarity,
+        salaryFit: salary,
+        filterFit: filters,
+        explanation: parts.join(', ')
+    };
+};
+
+/**
+ * Scores vacancies against the user's resumes. `profileTexts` are the resume
+ * texts, or the position description when no resume is available. Embedding
+ * failures are logged and fall back to the salary and filter parts only, so a
+ * flaky embedding API never stops a run.
+ */
+export const scoreVacancies = async (
+    vacancies: ProviderVacancy[],
+    profileTexts: string[],
+    filters?: IPositionFilters
+): Promise<MatchScore[]> => {
+    let similarities: (number | undefined)[] = vacancies.map(() => undefined);
+    const profiles = profileTexts.map(text => text.trim().slice(0, MAX_EMBEDDING_CHARS)).filter(Boolean);
+    if (vacancies.length > 0 && profiles.length > 0) {
+        try {
+            const vectors = await getEmbeddings([...profiles, ...vacancies.map(v => vacancyText(v).slice(0, MAX_EMBEDDING_CHARS))]);
+            const profileVectors = vectors.slice(0, profiles.length);
+            similarities = vectors.slice(profiles.length).map(vector =>
+                Math.max(0, ...profileVectors.map(profile => cosineSimilarity(profile, vector)))
+            );
+        } catch (err: any) {
+            logger.warn('Error embedding vacancies, ranking without resume similarity', {error: err});
+        }
+    }
+    return vacancies.map((vacancy, i) => combine(salaryFit(vacancy, filters), filterFit(vacancy, filters), similarities[i]));
+};
@@ -0,0 +1,49 @@
+import {collectDefaultMetrics, Counter, Histogram, Registry} from "prom-client";
+
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({register: metricsRegistry});
+
+export const applicationAttemptsTotal = new Counter({
+    name: 'autoapply_application_attempts_total',
+    help: 'Vacancies processed by outcome; outcome="applied" counts applications sent',
+    labelNames: ['source', 'outcome'],
+    registers: [metricsRegistry],
+});
+
+export const llmRequestsTotal = new Counter({
+    name: 'llm_requests_total',
+    help: 'LLM requests by provider, task and result, retries included',
+    labelNames: ['provider', 'task', 'result'],
+    registers: [metricsRegistry],
+});
+
+export const llmTokensTotal = new Counter({
+    name: 'llm_tokens_total',
+    help: 'Tokens reported by the LLM provider',
+    labelNames: ['provider', 'task', 'type'],
+    registers: [metricsRegistry],
+});
+
+export const hhRequestDurationSeconds = new Histogram({
+    name: 'hh_request_duration_seconds',
+    help: 'Latency of single HH API requests, retries observed separately',
+    labelNames: ['endpoint', 'status'],
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+    registers: [metricsRegistry],
+});
+
+export const hhRequestErrorsTotal = new Counter({
+    name: 'hh_request_errors_total',
+    help: 'HH requests that failed after all retries',
+    labelNames: ['endpoint', 'status'],
+    registers: [metricsRegistry],
+});
+
+export const runDurationSeconds = new Histogram({
+    name: 'autoapply_run_duration_seconds',
+    help: 'Time from the start of an auto-apply run until its last job settled',
+    labelNames: ['trigger', 'status'],
+    buckets: [30, 60, 300, 600, 1800, 3600, 7200, 14400],
+    registers: [metricsRegistry],
+});
@@ -0,0 +1,49 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import {VacanciesModel} from "../models";
+
+dotenv.config();
+
+/**
+ * Prepares the vacancies collection for the unique (user, vacancy_id, source)
+ * index: backfills `source` on rows written before it existed, removes all but
+ * the oldest row of each duplicate group and then builds the indexes.
+ * Pass --dry-run to only report what would be removed.
+ */
+const migrate = async () => {
+    const dryRun = process.argv.includes('--dry-run');
+    await mongoose.connect(process.env.MONGO_DB_URI || 'http://localhost:8080', {dbName: process.env.MONGO_DATABASE});
+
+    if (!dryRun) {
+        const backfilled = await VacanciesModel.collection.updateMany({source: {$exists: false}}, {$set: {source: 'hh'}});
+        console.log(`Backfilled source on ${backfilled.modifiedCount} vacancies`);
+    }
+
+    const groups = VacanciesModel.collection.aggregate([
+        {$group: {_id: {user: '$user', vacancy_id: '$vacancy_id', source: {$ifNull: ['$source', 'hh']}}, ids: {$push: '$_id'}, count: {$sum: 1}}},
+        {$match: {count: {$gt: 1}}},
+    ], {allowDiskUse: true});
+
+    let removed = 0;
+    for await (const group of groups) {
+        // ObjectIds grow with insertion time, so the smallest one is the original application.
+        const [, ...extra] = group.ids.sort((a: mongoose.Types.ObjectId, b: mongoose.Types.ObjectId) => a.toHexString().localeCompare(b.toHexString()));
+        if (!dryRun) {
+            await VacanciesModel.collection.deleteMany({_id: {$in: extra}});
+        }
+        removed += extra.length;
+    }
+    console.log(`${dryRun ? 'Would remove' : 'Removed'} ${removed} duplicate vacancies`);
+
+    if (!dryRun) {
+        await VacanciesModel.createIndexes();
+        console.log('Vacancy indexes are in place');
+    }
+};
+
+migrate()
+    .catch(err => {
+        console.error('Vacancy deduplication migration failed:', err.message);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
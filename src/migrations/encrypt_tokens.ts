@@ -0,0 +1,42 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import {TOKEN_FIELDS, UserModel} from "../models";
+import {encryptSecret, isEncryptedWithActiveKey} from "../secrets";
+
+dotenv.config();
+
+/**
+ * Encrypts plaintext OAuth tokens and re-encrypts tokens written with an older
+ * key. Reads the raw collection so schema getters do not hide the stored form.
+ * Safe to run repeatedly; rows already on the active key are left untouched.
+ */
+const migrate = async () => {
+    if (!process.env.TOKEN_ENCRYPTION_KEYS) {
+        throw new Error('TOKEN_ENCRYPTION_KEYS must be set to run this migration');
+    }
+    await mongoose.connect(process.env.MONGO_DB_URI || 'http://localhost:8080', {dbName: process.env.MONGO_DATABASE});
+
+    let updated = 0;
+    const cursor = UserModel.collection.find({}, {projection: Object.fromEntries(TOKEN_FIELDS.map(f => [f, 1]))});
+    for await (const user of cursor) {
+        const changes: { [key: string]: any } = {};
+        TOKEN_FIELDS.forEach(field => {
+            const value = user[field];
+            if (value && !isEncryptedWithActiveKey(value)) {
+                changes[field] = encryptSecret(value);
+            }
+        });
+        if (Object.keys(changes).length > 0) {
+            await UserModel.collection.updateOne({_id: user._id}, {$set: changes});
+            updated++;
+        }
+    }
+    console.log(`Encrypted tokens for ${updated} users`);
+};
+
+migrate()
+    .catch(err => {
+        console.error('Token encryption migration failed:', err.message);
+        process.exitCode = 1;
+    })
+    .finally(() => mongoose.disconnect());
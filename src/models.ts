@@ -0,0 +1,416 @@
+import mongoose, {Schema, Document, Model} from 'mongoose';
+import {decryptSecret, encryptSecret} from "./secrets";
+import {nextScheduledRun} from "./schedule";
+
+export interface IPositionFilters {
+    areas?: string[];
+    salaryFrom?: number;
+    salaryTo?: number;
+    currency?: string;
+    experience?: string;
+    employment?: string[];
+    schedule?: string[];
+    excludedEmployers?: string[];
+    excludedKeywords?: string[];
+}
+
+export interface ISalaryConstraint {
+    min?: number;
+    max?: number;
+    currency?: string;
+}
+
+export interface IApplicationLimits {
+    perRun?: number;
+    daily?: number;
+    weekly?: number;
+}
+
+export interface IEmployerRule {
+    // Look-back window in days; 0 turns the rule off.
+    cooldownDays?: number;
+    maxApplications?: number;
+}
+
+export interface IExclusionRules {
+    // Employer ids or names, matched case-insensitively.
+    blockedEmployers?: string[];
+    // Never skipped by keywords or learned exclusions; with allowedOnly, the only employers applied to.
+    allowedEmployers?: string[];
+    allowedOnly?: boolean;
+    // Matched against the vacancy title, snippet and employer name, e.g. "кадровое агентство".
+    excludedKeywords?: string[];
+    // Skips employers who discarded one of the user's earlier applications.
+    learnFromDiscards?: boolean;
+}
+
+export interface INotificationPreferences {
+    email?: boolean;
+    telegram?: boolean;
+    telegramChatId?: string;
+    runDigest?: boolean;
+    invitationAlerts?: boolean;
+}
+
+export interface IUserSchedule {
+    enabled?: boolean;
+    // IANA name, e.g. Asia/Almaty; the slots below are local to it.
+    timezone?: string;
+    // Weekdays as in cron: 0 is Sunday, 6 is Saturday.
+    days?: number[];
+    // Local times formatted as HH:mm.
+    times?: string[];
+}
+
+export type CoverLetterLength = 'short' | 'medium' | 'long';
+export type CoverLetterTone = 'formal' | 'friendly' | 'confident';
+export type CoverLetterLanguage = 'ru' | 'kk' | 'en';
+
+export const COVER_LETTER_LENGTHS: CoverLetterLength[] = ['short', 'medium', 'long'];
+export const COVER_LETTER_TONES: CoverLetterTone[] = ['formal', 'friendly', 'confident'];
+export const COVER_LETTER_LANGUAGES: CoverLetterLanguage[] = ['ru', 'kk', 'en'];
+
+export interface ICoverLetterSettings {
+    // Text with {{placeholders}}; {{body}} is where the generated part goes.
+    template?: string;
+    length?: CoverLetterLength;
+    tone?: CoverLetterTone;
+    intro?: string;
+    signature?: string;
+    // Forces one language; by default the letter follows the vacancy's language.
+    language?: CoverLetterLanguage;
+}
+
+export interface IPosition extends Document {
+    position: string;
+    status: string;
+    date: Date;
+    filters?: IPositionFilters;
+    searchKeyword?: string;
+    // Position text the keyword was extracted from, used to detect edits.
+    searchKeywordSource?: string;
+    salaryConstraint?: ISalaryConstraint;
+    applicationLimits?: IApplicationLimits;
+}
+
+
+export interface IUser extends Document {
+    firstName: string;
+    lastName: string;
+    email: string;
+    password?: string;
+    positions?: IPosition[];
+    profileImage: string
+    isVerified?: boolean;
+    isHr?: boolean;
+    linkedinId?: string;
+    hasHHAccount?: boolean;
+    hhAccessToken?: string;
+    hhRefreshToken?: string;
+    hhTokenExpiresAt?: Date;
+    hhDisconnectedAt?: Date;
+    hhDisconnectReason?: string;
+    hhNegotiationsSyncedAt?: Date;
+
+    hasLinkedinAccount?: boolean;
+    linkedinAccessToken?: string;
+    linkedinRefreshToken?: string;
+
+    only_with_salary?: boolean;
+    reviewBeforeSend?: boolean;
+
+    plan?: string;
+    applicationLimits?: IApplicationLimits;
+    employerRule?: IEmployerRule;
+    exclusionRules?: IExclusionRules;
+    notificationPreferences?: INotificationPreferences;
+    schedule?: IUserSchedule;
+    nextRunAt?: Date;
+    coverLetterSettings?: ICoverLetterSettings;
+
+    createdAt?: Date;
+    updatedAt?: Date;
+
+    comparePassword(candidatePassword: string): Promise<boolean>;
+}
+
+const PositionFiltersSchema: Schema<IPositionFilters> = new mongoose.Schema<IPositionFilters>({
+    areas: {type: [String], default: []},
+    salaryFrom: {type: Number},
+    salaryTo: {type: Number},
+    currency: {type: String},
+    experience: {type: String, enum: ['noExperience', 'between1And3', 'between3And6', 'moreThan6']},
+    employment: {type: [String], enum: ['full', 'part', 'project', 'volunteer', 'probation'], default: []},
+    schedule: {type: [String], enum: ['fullDay', 'shift', 'flexible', 'remote', 'flyInFlyOut'], default: []},
+    excludedEmployers: {type: [String], default: []},
+    excludedKeywords: {type: [String], default: []},
+}, {_id: false});
+
+const SalaryConstraintSchema: Schema<ISalaryConstraint> = new mongoose.Schema<ISalaryConstraint>({
+    min: {type: Number},
+    max: {type: Number},
+    currency: {type: String},
+}, {_id: false});
+
+const ApplicationLimitsSchema: Schema<IApplicationLimits> = new mongoose.Schema<IApplicationLimits>({
+    perRun: {type: Number, min: 0},
+    daily: {type: Number, min: 0},
+    weekly: {type: Number, min: 0},
+}, {_id: false});
+
+const EmployerRuleSchema: Schema<IEmployerRule> = new mongoose.Schema<IEmployerRule>({
+    cooldownDays: {type: Number, min: 0},
+    maxApplications: {type: Number, min: 1},
+}, {_id: false});
+
+const ExclusionRulesSchema: Schema<IExclusionRules> = new mongoose.Schema<IExclusionRules>({
+    blockedEmployers: {type: [String], default: []},
+    allowedEmployers: {type: [String], default: []},
+    allowedOnly: {type: Boolean, default: false},
+    excludedKeywords: {type: [String], default: []},
+    learnFromDiscards: {type: Boolean, default: true},
+}, {_id: false});
+
+const NotificationPreferencesSchema: Schema<INotificationPreferences> = new mongoose.Schema<INotificationPreferences>({
+    email: {type: Boolean, default: true},
+    telegram: {type: Boolean, default: true},
+    telegramChatId: {type: String},
+    runDigest: {type: Boolean, default: true},
+    invitationAlerts: {type: Boolean, default: true},
+}, {_id: false});
+
+const UserScheduleSchema: Schema<IUserSchedule> = new mongoose.Schema<IUserSchedule>({
+    enabled: {type: Boolean, default: true},
+    timezone: {type: String},
+    days: {type: [Number], default: undefined},
+    times: {type: [String], default: undefined},
+}, {_id: false});
+
+const CoverLetterSettingsSchema: Schema<ICoverLetterSettings> = new mongoose.Schema<ICoverLetterSettings>({
+    template: {type: String},
+    length: {type: String, enum: COVER_LETTER_LENGTHS},
+    tone: {type: String, enum: COVER_LETTER_TONES},
+    intro: {type: String},
+    signature: {type: String},
+    language: {type: String, enum: COVER_LETTER_LANGUAGES},
+}, {_id: false});
+
+const PositionSchema: Schema<IPosition> = new mongoose.Schema<IPosition>({
+    position: {type: String, required: true},
+    status: {type: String, default: 'Active'},
+    date: {type: Date, required: true, default: Date.now},
+    filters: {type: PositionFiltersSchema, default: () => ({})},
+    searchKeyword: {type: String},
+    searchKeywordSource: {type: String},
+    salaryConstraint: {type: SalaryConstraintSchema},
+    applicationLimits: {type: ApplicationLimitsSchema},
+});
+
+export const TOKEN_FIELDS = ['hhAccessToken', 'hhRefreshToken', 'linkedinAccessToken', 'linkedinRefreshToken'] as const;
+
+// Tokens are encrypted by the setter on every write (including updateOne) and decrypted on read.
+const encryptedString = {type: String, default: '', set: encryptSecret, get: decryptSecret};
+
+const UserSchema: Schema<IUser> = new mongoose.Schema<IUser>(
+    {
+        email: {
+            type: String,
+            required: true,
+            unique: true,
+            match: [/^\S+@\S+\.\S+$/, 'Please use a valid email address.']
+        },
+        firstName: {type: String, required: true},
+        lastName: {type: String, required: true},
+        password: {type: String},
+        profileImage: {type: String},
+        positions: {type: [PositionSchema], default: []},
+        hasHHAccount: {type: Boolean, default: false},
+        hhAccessToken: encryptedString,
+        hhRefreshToken: encryptedString,
+        hhTokenExpiresAt: {type: Date},
+        hhDisconnectedAt: {type: Date},
+        hhDisconnectReason: {type: String},
+        hhNegotiationsSyncedAt: {type: Date},
+        hasLinkedinAccount: {type: Boolean, default: false},
+        linkedinId: {type: String, default: ''},
+        linkedinAccessToken: encryptedString,
+        linkedinRefreshToken: encryptedString,
+        only_with_salary: {type: Boolean, default: false},
+        reviewBeforeSend: {type: Boolean, default: false},
+        plan: {type: String},
+        applicationLimits: {type: ApplicationLimitsSchema},
+        employerRule: {type: EmployerRuleSchema},
+        exclusionRules: {type: ExclusionRulesSchema, default: () => ({})},
+        notificationPreferences: {type: NotificationPreferencesSchema, default: () => ({})},
+        schedule: {type: UserScheduleSchema},
+        nextRunAt: {type: Date},
+        coverLetterSettings: {type: CoverLetterSettingsSchema},
+        isVerified: {type: Boolean, default: false},
+        isHr: {type: Boolean, default: false}
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (doc, ret: any) => {
+                delete ret.password;
+                TOKEN_FIELDS.forEach(field => delete ret[field]);
+                return ret;
+            }
+        }
+    }
+);
+
+// Serves the scheduler's selection: verified users whose slot has come.
+UserSchema.index({isVerified: 1, nextRunAt: 1});
+
+// A changed schedule takes effect from its next slot, without waiting for the old one to fire.
+UserSchema.pre('save', function () {
+    if (this.isModified('schedule')) {
+        this.nextRunAt = nextScheduledRun(this.schedule) || undefined;
+    }
+});
+
+UserSchema.pre(['updateOne', 'findOneAndUpdate'], function () {
+    const update: any = this.getUpdate();
+    const schedule = update?.$set?.schedule;
+    if (schedule && typeof schedule === 'object') {
+        this.set('nextRunAt', nextScheduledRun(schedule) || undefined);
+    }
+});
+
+// Getters do not run for lean queries, so decrypt the raw rows here instead.
+UserSchema.post(['find', 'findOne', 'findOneAndUpdate'], function (result: any) {
+    if (!result || !this.mongooseOptions().lean) return;
+    (Array.isArray(result) ? result : [result]).forEach((user: any) => {
+        TOKEN_FIELDS.forEach(field => {
+            if (user[field]) user[field] = decryptSecret(user[field]);
+        });
+    });
+});
+
+export const UserModel: Model<IUser> = mongoose.model<IUser>('User', UserSchema);
+
+export type VacancyStatus =
+    'claimed'
+    | 'applied'
+    | 'suggested'
+    | 'pending_review'
+    | 'approved'
+    | 'sending'
+    | 'rejected'
+    | 'send_failed';
+
+export const VACANCY_STATUSES: VacancyStatus[] = ['claimed', 'applied', 'suggested', 'pending_review', 'approved', 'sending', 'rejected', 'send_failed'];
+
+// Where the employer has taken an application: sent and unseen, viewed, invited or discarded.
+export type NegotiationState = 'response' | 'viewed' | 'invitation' | 'discard';
+
+export const NEGOTIATION_STATES: NegotiationState[] = ['response', 'viewed', 'invitation', 'discard'];
+
+export interface INegotiationEvent {
+    state: NegotiationState;
+    // The board's own state id, e.g. HH's `interview` or `discard_by_employer`.
+    providerState?: string;
+    at: Date;
+}
+
+export interface IEmployerMessage {
+    id: string;
+    text: string;
+    createdAt: Date;
+}
+
+export interface IVacancy extends Document {
+    vacancy_id: string;
+    job_name: string;
+    employer_id?: string;
+    employer_name: string;
+    salary: number;
+    salary_currency?: string;
+    employer_logo: string;
+    responsibility: string;
+    requirement: string;
+    address: string;
+    url: string;
+    user: string;
+    position_id?: string;
+    cover_letter: string;
+    isHeadHunterVacancy: boolean;
+    isOtherSiteVacancy: boolean;
+    source: string;
+    status: VacancyStatus;
+    resume_id?: string;
+    // How well the vacancy matched the user's resumes when it was picked, 0..1.
+    matchScore?: number;
+    matchExplanation?: string;
+    reviewedAt?: Date;
+    appliedAt?: Date;
+    sendError?: string;
+    negotiation_id?: string;
+    negotiationState?: NegotiationState;
+    negotiationUpdatedAt?: Date;
+    negotiationCheckedAt?: Date;
+    negotiationEvents: INegotiationEvent[];
+    employerMessages: IEmployerMessage[];
+    createdAt?: Date;
+    updatedAt?: Date;
+}
+
+const NegotiationEventSchema: Schema<INegotiationEvent> = new mongoose.Schema<INegotiationEvent>({
+    state: {type: String, enum: NEGOTIATION_STATES, required: true},
+    providerState: {type: String},
+    at: {type: Date, required: true},
+}, {_id: false});
+
+const EmployerMessageSchema: Schema<IEmployerMessage> = new mongoose.Schema<IEmployerMessage>({
+    id: {type: String, required: true},
+    text: {type: String, default: ''},
+    createdAt: {type: Date, required: true},
+}, {_id: false});
+
+const VacancySchema: Schema = new Schema({
+    vacancy_id: {type: String, required: true},
+    job_name: {type: String, required: true},
+    employer_id: {type: String},
+    // HH snippets and LinkedIn postings can leave these empty, and an empty string fails `required`.
+    employer_name: {type: String, default: ''},
+    salary: {type: Number},
+    salary_currency: {type: String},
+    employer_logo: {type: String},
+    responsibility: {type: String},
+    requirement: {type: String, default: ''},
+    address: {type: String},
+    url: {type: String, required: true},
+    user: {type: String, ref: 'User', required: true},
+    position_id: {type: String},
+    // Empty while the vacancy is only claimed; filled in once the letter is generated.
+    cover_letter: {type: String, default: ''},
+    isHeadHunterVacancy: {type: Boolean, default: false},
+    isOtherSiteVacancy: {type: Boolean, default: false},
+    source: {type: String, default: 'hh'},
+    status: {type: String, enum: VACANCY_STATUSES, default: 'applied'},
+    resume_id: {type: String},
+    matchScore: {type: Number},
+    matchExplanation: {type: String},
+    reviewedAt: {type: Date},
+    appliedAt: {type: Date},
+    sendError: {type: String},
+    negotiation_id: {type: String},
+    negotiationState: {type: String, enum: NEGOTIATION_STATES},
+    negotiationUpdatedAt: {type: Date},
+    negotiationCheckedAt: {type: Date},
+    negotiationEvents: {type: [NegotiationEventSchema], default: []},
+    employerMessages: {type: [EmployerMessageSchema], default: []},
+}, {
+    timestamps: true,
+});
+
+// One row per vacancy and user. The row is inserted as a claim before applying,
+// so the index is what stops two positions or a restarted run from applying twice.
+VacancySchema.index({user: 1, vacancy_id: 1, source: 1}, {unique: true});
+VacancySchema.index({user: 1, status: 1, appliedAt: -1});
+VacancySchema.index({user: 1, source: 1, employer_id: 1, createdAt: -1});
+VacancySchema.index({user: 1, negotiationState: 1});
+VacancySchema.index({user: 1, position_id: 1, createdAt: -1});
+
+export const VacanciesModel = mongoose.model<IVacancy>('Vacancy', VacancySchema);
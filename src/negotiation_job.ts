@@ -0,0 +1,132 @@
+import {CronJob} from 'cron';
+import {IUser, IVacancy, NegotiationState, UserModel, VacanciesModel} from "./models";
+import {hhService, HHTokenRevokedError} from "./providers";
+import {acquireLease} from "./run_lock";
+import {sendInvitationAlert} from "./notifications";
+import {logger} from "./logger";
+
+const NEGOTIATIONS_PAGE_SIZE = 50;
+// Bounds the first sync of a user with a long history; later syncs stop at the last synced item.
+const MAX_NEGOTIATION_PAGES = 20;
+
+export const NEGOTIATION_LOCK_NAME = 'negotiationSync';
+const NEGOTIATION_LOCK_TTL_MS = Number(process.env.RUN_LOCK_TTL_MS) || 5 * 60 * 1000;
+const NEGOTIATION_LOCK_HEARTBEAT_MS = Number(process.env.RUN_LOCK_HEARTBEAT_MS) || 60 * 1000;
+
+const INVITATION_STATES = ['invitation', 'interview', 'offer', 'hired'];
+
+/** Maps an HH negotiation onto our states. HH has no `viewed` state, only the `viewed_by_opponent` flag. */
+export const toNegotiationState = (item: any): NegotiationState => {
+    const state: string = item.state?.id || '';
+    if (INVITATION_STATES.includes(state)) return 'invitation';
+    if (state.startsWith('discard')) return 'discard';
+    return item.viewed_by_opponent ? 'viewed' : 'response';
+};
+
+const fetchEmployerMessages = async (user: IUser, vacancy: IVacancy, negotiationId: string) => {
+    try {
+        const messages = await hhService.getNegotiationMessages(user, negotiationId);
+        const known = new Set((vacancy.employerMessages || []).map(m => m.id));
+        return messages
+            .filter((m: any) => m.author?.participant_type === 'employer' && !known.has(String(m.id)))
+            .map((m: any) => ({id: String(m.id), text: m.text || '', createdAt: new Date(m.created_at)}));
+    } catch (err: any) {
+        // The state transition is still worth saving; messages are picked up on the next change.
+        logger.error('Error fetching negotiation messages', {negotiationId, error: err});
+        return [];
+    }
+};
+
+/** Stores one negotiation on the matching vacancy. Returns false when the application was not made by us. */
+const applyNegotiation = async (user: IUser, item: any): Promise<boolean> => {
+    const vacancy = await VacanciesModel.findOne({user: String(user._id), source: 'hh', vacancy_id: String(item.vacancy?.id)});
+    if (!vacancy) return false;
+
+    const state = toNegotiationState(item);
+    const updatedAt = new Date(item.updated_at);
+    const set: { [key: string]: any } = {
+        negotiation_id: String(item.id),
+        negotiationUpdatedAt: updatedAt,
+        negotiationCheckedAt: new Date(),
+    };
+    const push: { [key: string]: any } = {};
+
+    if (vacancy.negotiationState !== state) {
+        set.negotiationState = state;
+        push.negotiationEvents = {state, providerState: item.state?.id, at: updatedAt};
+    }
+    // A claim left behind by a crash during apply: HH has the negotiation, so it was sent.
+    if (vacancy.status === 'claimed') {
+        set.status = 'applied';
+        set.appliedAt = item.created_at ? new Date(item.created_at) : updatedAt;
+    }
+
+    const messages = await fetchEmployerMessages(user, vacancy, String(item.id));
+    if (messages.length > 0) {
+        push.employerMessages = {$each: messages};
+    }
+
+    await VacanciesModel.updateOne({_id: vacancy._id}, Object.keys(push).length > 0 ? {$set: set, $push: push} : {$set: set});
+    // Sent after the update so a crash cannot alert twice for the same transition.
+    if (state === 'invitation' && vacancy.negotiationState !== 'invitation') {
+        await sendInvitationAlert(user, vacancy, messages);
+    }
+    return true;
+};
+
+export const syncUserNegotiations = async (user: IUser): Promise<number> => {
+    await hhService.refreshAccessToken(user);
+
+    const startedAt = new Date();
+    const syncedAt = user.hhNegotiationsSyncedAt ? new Date(user.hhNegotiationsSyncedAt) : undefined;
+    let updated = 0;
+    let reachedSynced = false;
+    for (let page = 0; page < MAX_NEGOTIATION_PAGES && !reachedSynced; page++) {
+        const {items, pages} = await hhService.getNegotiations(user, page, NEGOTIATIONS_PAGE_SIZE);
+        for (const item of items) {
+            // Items come newest first, so everything past this point was stored by an earlier sync.
+            if (syncedAt && new Date(item.updated_at) <= syncedAt) {
+                reachedSynced = true;
+                break;
+            }
+            if (await applyNegotiation(user, item)) updated++;
+        }
+        if (page + 1 >= pages) break;
+    }
+
+    await UserModel.updateOne({_id: user._id}, {$set: {hhNegotiationsSyncedAt: startedAt}});
+    return updated;
+};
+
+export const syncNegotiations = async () => {
+    let lease;
+    try {
+        lease = await acquireLease(NEGOTIATION_LOCK_NAME, {
+            ttlMs: NEGOTIATION_LOCK_TTL_MS,
+            heartbeatMs: NEGOTIATION_LOCK_HEARTBEAT_MS
+        });
+        if (!lease) {
+            logger.info('Negotiation sync is already running on another instance');
+            return;
+        }
+        const userIds: string[] = await VacanciesModel.distinct('user', {source: 'hh', status: {$in: ['applied', 'claimed']}});
+        for (const userId of userIds) {
+            const user = await UserModel.findById(userId).lean();
+            if (!user || !hhService.isConnected(user as IUser)) continue;
+            try {
+                const updated = await syncUserNegotiations(user as IUser);
+                logger.info('Synced HH negotiations', {userId, updated});
+            } catch (err: any) {
+                if (!(err instanceof HHTokenRevokedError)) {
+                    logger.error('Error syncing HH negotiations for user', {userId, error: err});
+                }
+            }
+        }
+    } catch (error) {
+        logger.error('Error syncing HH negotiations', {error});
+    } finally {
+        if (lease) await lease.release();
+    }
+};
+
+export const negotiationJob = new CronJob('30 * * * *', () => syncNegotiations(), null, false, 'Asia/Qyzylorda');
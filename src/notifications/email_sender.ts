@@ -0,0 +1,59 @@
+import nodemailer, {Transporter} from "nodemailer";
+import {IUser} from "../models";
+import {Notification, NotificationSender} from "./types";
+
+export interface EmailSenderOptions {
+    host?: string;
+    port?: number;
+    secure?: boolean;
+    user?: string;
+    password?: string;
+    from?: string;
+}
+
+export class EmailSender implements NotificationSender {
+    readonly channel = 'email' as const;
+    private readonly options: EmailSenderOptions;
+    private transporter?: Transporter;
+
+    constructor(options: EmailSenderOptions = {}) {
+        this.options = {
+            host: options.host || process.env.SMTP_HOST,
+            port: options.port ?? (Number(process.env.SMTP_PORT) || 587),
+            secure: options.secure ?? process.env.SMTP_SECURE === 'true',
+            user: options.user || process.env.SMTP_USER,
+            password: options.password || process.env.SMTP_PASSWORD,
+            from: options.from || process.env.SMTP_FROM || 'Recruiter AI <no-reply@localhost>',
+        };
+    }
+
+    isConfigured = (): boolean => {
+        return !!this.options.host;
+    }
+
+    canReach = (user: IUser): boolean => {
+        return !!user.email;
+    }
+
+    send = async (user: IUser, notification: Notification) => {
+        await this.getTransporter().sendMail({
+            from: this.options.from,
+            to: user.email,
+            subject: notification.subject,
+            text: notification.text,
+        });
+    }
+
+    private getTransporter(): Transporter {
+        if (!this.transporter) {
+            this.transporter = nodemailer.createTransport({
+                host: this.options.host,
+                port: this.options.port,
+                secure: this.options.secure,
+                // A local sink usually has no auth, so credentials are optional.
+                auth: this.options.user ? {user: this.options.user, pass: this.options.password} : undefined,
+            });
+        }
+        return this.transporter;
+    }
+}
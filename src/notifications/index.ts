@@ -0,0 +1,135 @@
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import {IEmployerMessage, IUser, IVacancy} from "../models";
+import {ApplicationAttemptModel, RunUserSkipModel} from "../run_ledger";
+import {EmailSender} from "./email_sender";
+import {TelegramSender} from "./telegram_sender";
+import {DeliveryResult, Notification, NotificationChannel, NotificationKind, NotificationSender} from "./types";
+import {logger} from "../logger";
+
+dotenv.config();
+
+export * from "./types";
+export {EmailSender} from "./email_sender";
+export {TelegramSender} from "./telegram_sender";
+
+// Keeps a digest readable after a big run; the counts still cover everything.
+const MAX_DIGEST_ITEMS = 20;
+const ERROR_OUTCOMES = ['cover_letter_failed', 'negotiation_failed', 'error'];
+
+let senders: NotificationSender[] = [new EmailSender(), new TelegramSender()];
+
+/** Replaces the senders built from the environment, e.g. with ones pointed at local stubs. */
+export const setNotificationSenders = (next: NotificationSender[]) => {
+    senders = next;
+};
+
+const wantsNotification = (user: IUser, channel: NotificationChannel, kind: NotificationKind): boolean => {
+    const preferences = user.notificationPreferences || {};
+    if (preferences[channel] === false) return false;
+    if (kind === 'runDigest') return preferences.runDigest !== false;
+    if (kind === 'invitationAlert') return preferences.invitationAlerts !== false;
+    return true;
+};
+
+/** Sends over every channel the user can be reached on. A failing channel never stops the others. */
+export const notifyUser = async (user: IUser, notification: Notification): Promise<DeliveryResult[]> => {
+    const results: DeliveryResult[] = [];
+    for (const sender of senders) {
+        if (!sender.isConfigured() || !sender.canReach(user) || !wantsNotification(user, sender.channel, notification.kind)) {
+            continue;
+        }
+        try {
+            await sender.send(user, notification);
+            results.push({channel: sender.channel, success: true});
+        } catch (err: any) {
+            logger.error('Error sending notification', {userId: user._id, kind: notification.kind, channel: sender.channel, error: err});
+            results.push({channel: sender.channel, success: false, error: err?.message});
+        }
+    }
+    return results;
+};
+
+const listItems = (items: { job_name?: string; employer_name?: string }[]) => {
+    const lines = items.slice(0, MAX_DIGEST_ITEMS).map(item => `- ${item.job_name} — ${item.employer_name}`);
+    if (items.length > MAX_DIGEST_ITEMS) {
+        lines.push(`…и ещё ${items.length - MAX_DIGEST_ITEMS}`);
+    }
+    return lines.join('\n');
+};
+
+/** Builds a user's digest for one run, or null when there is nothing worth telling them. */
+export const buildRunDigest = async (
+    runId: mongoose.Types.ObjectId,
+    user: IUser,
+    skipReasons: string[] = []
+): Promise<Notification | null> => {
+    const attempts = await ApplicationAttemptModel.find({
+        run: runId,
+        user: String(user._id),
+        outcome: {$in: ['applied', 'drafted', ...ERROR_OUTCOMES]}
+    }).lean();
+    const applied = attempts.filter(a => a.outcome === 'applied');
+    const drafted = attempts.filter(a => a.outcome === 'drafted');
+    const failed = attempts.filter(a => ERROR_OUTCOMES.includes(a.outcome));
+
+    const sections: string[] = [];
+    if (applied.length > 0) {
+        sections.push(`Отправлены отклики (${applied.length}):\n${listItems(applied)}`);
+    }
+    if (drafted.length > 0) {
+        sections.push(`Черновики ждут вашей проверки и не отправлены (${drafted.length}):\n${listItems(drafted)}`);
+    }
+    if (failed.length > 0) {
+        sections.push(`Не удалось обработать вакансий: ${failed.length}.`);
+    }
+    if (user.hhDisconnectedAt) {
+        sections.push('Аккаунт HeadHunter отключён. Подключите его заново, чтобы отклики продолжились.');
+    }
+    skipReasons.forEach(reason => sections.push(`Ваш профиль пропущен: ${reason}`));
+    if (sections.length === 0) return null;
+
+    return {
+        kind: 'runDigest',
+        subject: applied.length > 0 ? `Автоотклик: отправлено ${applied.length}` : 'Автоотклик: итоги запуска',
+        text: sections.join('\n\n'),
+    };
+};
+
+// Digests are best effort: a failed lookup or delivery is logged and the next user is tried.
+export const sendRunDigests = async (runId: mongoose.Types.ObjectId, users: IUser[]) => {
+    const skips = await RunUserSkipModel.find(
+        {run: runId, user: {$in: users.map(user => String(user._id))}},
+        {user: 1, reason: 1}
+    ).lean().catch(err => {
+        logger.error('Error loading skipped users for digests', {runId, error: err});
+        return [];
+    });
+    for (const user of users) {
+        try {
+            const skipReasons = skips
+                .filter(skip => skip.user === String(user._id))
+                .map(skip => skip.reason);
+            const digest = await buildRunDigest(runId, user, skipReasons);
+            if (digest) await notifyUser(user, digest);
+        } catch (err: any) {
+            logger.error('Error sending run digest', {runId, userId: user._id, error: err});
+        }
+    }
+};
+
+export const sendInvitationAlert = async (user: IUser, vacancy: IVacancy, messages: IEmployerMessage[] = []) => {
+    const lastMessage = messages[messages.length - 1];
+    const lines = [
+        `${vacancy.employer_name} приглашает вас по вакансии «${vacancy.job_name}».`,
+        vacancy.url,
+    ];
+    if (lastMessage?.text) {
+        lines.push(`Сообщение работодателя:\n${lastMessage.text}`);
+    }
+    return notifyUser(user, {
+        kind: 'invitationAlert',
+        subject: `Приглашение: ${vacancy.job_name}`,
+        text: lines.join('\n\n'),
+    });
+};
@@ -0,0 +1,45 @@
+import axios from "axios";
+import {IUser} from "../models";
+import {Notification, NotificationSender} from "./types";
+
+// Telegram rejects messages longer than this.
+const MAX_MESSAGE_LENGTH = 4096;
+
+export interface TelegramSenderOptions {
+    apiUrl?: string;
+    botToken?: string;
+}
+
+export class TelegramSender implements NotificationSender {
+    readonly channel = 'telegram' as const;
+    private readonly apiUrl: string;
+    private readonly botToken?: string;
+
+    constructor(options: TelegramSenderOptions = {}) {
+        this.apiUrl = options.apiUrl || process.env.TELEGRAM_API_URL || 'https://api.telegram.org';
+        this.botToken = options.botToken || process.env.TELEGRAM_BOT_TOKEN;
+    }
+
+    isConfigured = (): boolean => {
+        return !!this.botToken;
+    }
+
+    canReach = (user: IUser): boolean => {
+        return !!user.notificationPreferences?.telegramChatId;
+    }
+
+    send = async (user: IUser, notification: Notification) => {
+        const text = `${notification.subject}\n\n${notification.text}`.slice(0, MAX_MESSAGE_LENGTH);
+        try {
+            await axios.post(`${this.apiUrl}/bot${this.botToken}/sendMessage`, {
+                chat_id: user.notificationPreferences?.telegramChatId,
+                text,
+                disable_web_page_preview: true,
+            });
+        } catch (err) {
+            // The bot token is part of the URL, so never let the axios error (and its config) reach the logs.
+            const description = axios.isAxiosError(err) ? err.response?.data?.description || err.message : String(err);
+            throw new Error(`Telegram sendMessage failed: ${description}`);
+        }
+    }
+}
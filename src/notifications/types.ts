@@ -0,0 +1,33 @@
+import {IUser} from "../models";
+
+export type NotificationChannel = 'email' | 'telegram';
+
+export type NotificationKind = 'runDigest' | 'invitationAlert' | 'test';
+
+export interface Notification {
+    kind: NotificationKind;
+    subject: string;
+    text: string;
+}
+
+export interface DeliveryResult {
+    channel: NotificationChannel;
+    success: boolean;
+    error?: string;
+}
+
+/**
+ * A way of reaching a user. Senders take their endpoints from the constructor
+ * so they can be pointed at a local SMTP sink or a stubbed bot API.
+ */
+export interface NotificationSender {
+    readonly channel: NotificationChannel;
+
+    /** Whether the server side of the channel (SMTP host, bot token) is set up. */
+    isConfigured(): boolean;
+
+    /** Whether the user has an address on this channel. */
+    canReach(user: IUser): boolean;
+
+    send(user: IUser, notification: Notification): Promise<void>;
+}
@@ -0,0 +1,7 @@
+import {WebPDFLoader} from "@langchain/community/document_loaders/web/pdf";
+
+export async function parsePDF(data: Blob) {
+    const loader = new WebPDFLoader(data);
+    const pdfData = await loader.load();
+    return pdfData.map(page => page.pageContent).join(' ');
+}
@@ -0,0 +1,129 @@
+import {z} from "zod";
+import {completeStructured, LLMError} from "./llm";
+import {ISalaryConstraint, UserModel} from "./models";
+import {logger} from "./logger";
+
+export interface PositionKeyword {
+    keyword: string;
+    salaryConstraint?: ISalaryConstraint;
+}
+
+interface KeywordPosition {
+    _id?: any;
+    position: string;
+    searchKeyword?: string;
+    searchKeywordSource?: string;
+    salaryConstraint?: ISalaryConstraint;
+}
+
+const normalizePositionText = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+const nullableNumber = z.number().positive().nullable().optional();
+
+// HH's currency dictionary. It predates the 1998 redenomination code, so roubles are RUR there, not RUB.
+const HH_CURRENCIES = ['RUR', 'KZT', 'USD', 'EUR', 'UAH', 'BYR', 'UZS', 'KGS', 'AZN', 'GEL'];
+const CURRENCY_ALIASES: { [code: string]: string } = {RUB: 'RUR', BYN: 'BYR'};
+
+/** The HH code for an ISO 4217 or HH currency code, or null when HH has no such currency. */
+export const toHHCurrency = (code?: string | null): string | null => {
+    const upper = (code || '').trim().toUpperCase();
+    const mapped = CURRENCY_ALIASES[upper] || upper;
+    return HH_CURRENCIES.includes(mapped) ? mapped : null;
+};
+
+/**
+ * Keeps a salary constraint only in a currency vacancy salaries can be
+ * compared with. An amount in a currency HH does not know would be compared
+ * against salaries in another currency, so such constraints are dropped.
+ */
+const normalizeSalaryConstraint = (constraint?: ISalaryConstraint): ISalaryConstraint | undefined => {
+    if (!constraint || !constraint.currency) return constraint;
+    const currency = toHHCurrency(constraint.currency);
+    if (!currency) {
+        logger.warn('Ignoring salary constraint in a currency HH does not support', {currency: constraint.currency});
+        return undefined;
+    }
+    return {...constraint, currency};
+};
+
+const extractPositionKeyword = async (positionText: string): Promise<PositionKeyword> => {
+    const PROMPT = `
+        Я буду давать тебе positions как это (это просто экзампл) Python developer с зарплатой меньше 350000тг и ты должен извелечь
+        позицию как (это просто экзампл) Python developer
+
+        и еще постоянно извелечь ключевой слово это нужно для поиска по вакансям как это просто экзампл Javascript разработчик или т.д
+        и извелечь без уровней только позицию
+
+        Если в тексте есть ограничение по зарплате, извлеки его в salary (min, max, currency в коде ISO 4217 как KZT, RUB, USD), иначе salary: null
+
+        user wanted position text: ${positionText}
+
+        Верни JSON: {"position" : "string", "salary": {"min": number | null, "max": number | null, "currency": "string" | null} | null}
+      `;
+    const result = await completeStructured({
+        task: 'keywordExtraction',
+        prompt: PROMPT,
+        schema: z.object({
+            position: z.string().trim().min(1),
+            salary: z.object({
+                min: nullableNumber,
+                max: nullableNumber,
+                currency: z.string().nullable().optional()
+            }).nullable().optional()
+        })
+    });
+
+    const salary = result.salary;
+    const hasSalary = salary && (salary.min || salary.max);
+    return {
+        keyword: normalizePositionText(result.position),
+        salaryConstraint: hasSalary ? normalizeSalaryConstraint({
+            min: salary.min ?? undefined,
+            max: salary.max ?? undefined,
+            currency: salary.currency || undefined
+        }) : undefined
+    };
+};
+
+/**
+ * Returns the search keyword stored on the position, extracting and saving it
+ * only when the position text has changed since the last extraction.
+ */
+export const ensurePositionKeyword = async (userId: any, position: KeywordPosition): Promise<PositionKeyword> => {
+    const source = normalizePositionText(position.position);
+    if (position.searchKeyword && position.searchKeywordSource === source) {
+        // Constraints stored before the HH mapping may still say RUB.
+        return {keyword: position.searchKeyword, salaryConstraint: normalizeSalaryConstraint(position.salaryConstraint)};
+    }
+
+    let extracted: PositionKeyword;
+    try {
+        extracted = await extractPositionKeyword(source);
+    } catch (error) {
+        if (!(error instanceof LLMError)) throw error;
+        // Not cached, so the extraction is retried on the next run.
+        logger.warn('Could not extract search keyword, searching by the raw position text', {error});
+        return {keyword: source};
+    }
+
+    position.searchKeyword = extracted.keyword;
+    position.searchKeywordSource = source;
+    position.salaryConstraint = extracted.salaryConstraint;
+    if (position._id) {
+        try {
+            await UserModel.updateOne(
+                {_id: userId, 'positions._id': position._id},
+                {
+                    $set: {
+                        'positions.$.searchKeyword': extracted.keyword,
+                        'positions.$.searchKeywordSource': source,
+                        'positions.$.salaryConstraint': extracted.salaryConstraint
+                    }
+                }
+            );
+        } catch (err) {
+            logger.error('Error saving extracted search keyword', {error: err});
+        }
+    }
+    return extracted;
+};
@@ -0,0 +1,188 @@
+import axios, {AxiosInstance, AxiosRequestConfig, AxiosResponse} from "axios";
+import {hhRequestDurationSeconds, hhRequestErrorsTotal} from "../metrics";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class TokenBucket {
+    private tokens: number;
+    private lastRefill = Date.now();
+    private pausedUntil = 0;
+
+    constructor(private readonly ratePerSecond: number, private readonly capacity: number) {
+        this.tokens = capacity;
+    }
+
+    take = async () => {
+        for (; ;) {
+            const now = Date.now();
+            if (now < this.pausedUntil) {
+                await sleep(this.pausedUntil - now);
+                continue;
+            }
+            this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) / 1000 * this.ratePerSecond);
+            this.lastRefill = now;
+            if (this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            }
+            await sleep(Math.ceil((1 - this.tokens) / this.ratePerSecond * 1000));
+        }
+    }
+
+    /** Holds every caller back, e.g. after HH answers 429 with Retry-After. */
+    pause = (ms: number) => {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    }
+}
+
+class Semaphore {
+    private active = 0;
+    private readonly waiters: (() => void)[] = [];
+
+    constructor(private readonly max: number) {
+    }
+
+    acquire = async () => {
+        if (this.active < this.max) {
+            this.active++;
+            return;
+        }
+        await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+
+    release = () => {
+        const next = this.waiters.shift();
+        if (next) {
+            next();
+        } else {
+            this.active--;
+        }
+    }
+}
+
+export interface EndpointMetrics {
+    requests: number;
+    errors: number;
+    retries: number;
+    totalLatencyMs: number;
+    statuses: { [status: string]: number };
+}
+
+export interface HHHttpClientOptions {
+    ratePerSecond?: number;
+    burst?: number;
+    maxConcurrency?: number;
+    maxRetries?: number;
+    baseBackoffMs?: number;
+}
+
+/** Collapses ids in a URL path so metrics are grouped per endpoint, e.g. `GET /vacancies/:id`. */
+export const endpointOf = (method: string, url: string): string => {
+    let path = url;
+    try {
+        path = new URL(url).pathname;
+    } catch (err) {
+        path = url.split('?')[0];
+    }
+    const normalized = path
+        .split('/')
+        .map(segment => /\d/.test(segment) && segment.length > 2 ? ':id' : segment)
+        .join('/');
+    return `${method.toUpperCase()} ${normalized}`;
+};
+
+const retryAfterMs = (header: unknown): number | undefined => {
+    if (typeof header !== 'string' || !header) return undefined;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * The HTTP client every HH call goes through. It applies one token-bucket rate
+ * limit and a concurrency cap across the process. 429s are always retried,
+ * honouring Retry-After. 5xx and network errors are retried only for GET
+ * requests, so a negotiation is never sent twice.
+ */
+export class HHHttpClient {
+    private readonly axios: AxiosInstance;
+    private readonly bucket: TokenBucket;
+    private readonly semaphore: Semaphore;
+    private readonly maxRetries: number;
+    private readonly baseBackoffMs: number;
+    private readonly metrics = new Map<string, EndpointMetrics>();
+
+    constructor(options: HHHttpClientOptions = {}) {
+        const ratePerSecond = options.ratePerSecond ?? (Number(process.env.HH_RATE_LIMIT_PER_SECOND) || 5);
+        this.axios = axios.create();
+        this.bucket = new TokenBucket(ratePerSecond, options.burst ?? (Number(process.env.HH_RATE_LIMIT_BURST) || ratePerSecond * 2));
+        this.semaphore = new Semaphore(options.maxConcurrency ?? (Number(process.env.HH_MAX_CONCURRENCY) || 5));
+        this.maxRetries = options.maxRetries ?? (Number(process.env.HH_MAX_RETRIES) || 4);
+        this.baseBackoffMs = options.baseBackoffMs ?? 500;
+    }
+
+    get = <T = any>(url: string, config: AxiosRequestConfig = {}) =>
+        this.request<T>({...config, method: 'GET', url});
+
+    post = <T = any>(url: string, data?: any, config: AxiosRequestConfig = {}) =>
+        this.request<T>({...config, method: 'POST', url, data});
+
+    request = async <T = any>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> => {
+        const method = (config.method || 'GET').toUpperCase();
+        const endpoint = endpointOf(method, config.url || '');
+        const metrics = this.metricsFor(endpoint);
+
+        for (let attempt = 0; ; attempt++) {
+            await this.bucket.take();
+            await this.semaphore.acquire();
+            const startedAt = Date.now();
+            let status: number | undefined;
+            let waitMs = 0;
+            try {
+                const response = await this.axios.request<T>(config);
+                status = response.status;
+                return response;
+            } catch (err) {
+                status = axios.isAxiosError(err) ? err.response?.status : undefined;
+                const retryable = status === 429 || (method === 'GET' && (status === undefined || status >= 500));
+                if (!axios.isAxiosError(err) || !retryable || attempt >= this.maxRetries) {
+                    metrics.errors++;
+                    hhRequestErrorsTotal.inc({endpoint, status: status === undefined ? 'network' : String(status)});
+                    throw err;
+                }
+
+                waitMs = retryAfterMs(err.response?.headers?.['retry-after'])
+                    ?? this.baseBackoffMs * 2 ** attempt + Math.floor(Math.random() * this.baseBackoffMs);
+                if (status === 429) {
+                    this.bucket.pause(waitMs);
+                }
+                metrics.retries++;
+            } finally {
+                this.semaphore.release();
+                metrics.requests++;
+                const latencyMs = Date.now() - startedAt;
+                metrics.totalLatencyMs += latencyMs;
+                const key = status === undefined ? 'network' : String(status);
+                metrics.statuses[key] = (metrics.statuses[key] || 0) + 1;
+                hhRequestDurationSeconds.observe({endpoint, status: key}, latencyMs / 1000);
+            }
+            await sleep(waitMs);
+        }
+    }
+
+    getMetrics = (): { [endpoint: string]: EndpointMetrics } => {
+        return Object.fromEntries(Array.from(this.metrics.entries()).map(([endpoint, m]) => [endpoint, {...m, statuses: {...m.statuses}}]));
+    }
+
+    private metricsFor(endpoint: string): EndpointMetrics {
+        let metrics = this.metrics.get(endpoint);
+        if (!metrics) {
+            metrics = {requests: 0, errors: 0, retries: 0, totalLatencyMs: 0, statuses: {}};
+            this.metrics.set(endpoint, metrics);
+        }
+        return metrics;
+    }
+}
+
+export const hhHttpClient = new HHHttpClient();
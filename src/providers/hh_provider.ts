@@ -0,0 +1,491 @@
+import axios from "axios";
+import mongoose from "mongoose";
+import {IUser, UserModel} from "../models";
+import {decryptSecret, encryptSecret} from "../secrets";
+import {getCachedResume, getResumeText} from "../resume_store";
+import {HHHttpClient, hhHttpClient} from "./hh_client";
+import {z} from "zod";
+import {completeStructured, LLMError} from "../llm";
+import {ApplyResult, ProviderResume, ProviderVacancy, VacancyPage, VacancyProvider, VacancySearchQuery} from "./types";
+import {logger} from "../logger";
+
+// HH rejects refreshes of a token that has not expired yet, so only a small margin is used.
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+export class HHTokenRevokedError extends Error {
+    constructor(readonly reason: string) {
+        super(`HH refresh token was rejected: ${reason}`);
+        this.name = 'HHTokenRevokedError';
+    }
+}
+
+/** HH answers 401, or 403 with an oauth error, when the access token is expired or invalid. */
+export const isHHAuthError = (err: unknown): boolean => {
+    if (!axios.isAxiosError(err) || !err.response) return false;
+    if (err.response.status === 401) return true;
+    const errors = err.response.data?.errors;
+    return err.response.status === 403 && Array.isArray(errors) && errors.some((e: any) => e.type === 'oauth');
+};
+
+type StoredTokens = Pick<IUser, 'hhAccessToken' | 'hhRefreshToken' | 'hhTokenExpiresAt'>;
+
+interface TokenResponse {
+    access_token: string;
+    refresh_token: string;
+    expires_in: number;
+}
+
+export interface HHServiceOptions {
+    apiUrl?: string;
+    oauthUrl?: string;
+    http?: HHHttpClient;
+}
+
+export class HHService implements VacancyProvider {
+    readonly source = 'hh' as const;
+    private readonly apiUrl: string;
+    private readonly oauthUrl: string;
+    private readonly http: HHHttpClient;
+    private readonly refreshing = new Map<string, Promise<StoredTokens>>();
+
+    constructor(options: HHServiceOptions = {}) {
+        this.apiUrl = options.apiUrl || process.env.HH_API_URL || 'https://api.hh.ru';
+        this.oauthUrl = options.oauthUrl || process.env.HH_OAUTH_URL || 'https://hh.ru';
+        this.http = options.http || hhHttpClient;
+    }
+
+    authorization = async (code: string): Promise<any> => {
+        try {
+            const URL = `${this.oauthUrl}/oauth/token`;
+            const params = new URLSearchParams({
+                grant_type: 'authorization_code',
+                client_id: process.env.HH_CLIENT_ID || '',
+                client_secret: process.env.HH_SECRET_KEY || '',
+                code: code
+            });
+            const response = await this.http.post(URL, params.toString(), {
+                headers: {
+                    'Content-Type': 'application/x-www-form-urlencoded'
+                }
+            });
+            return this.extractTokens(response);
+        } catch (err) {
+            logger.error('Failed to sign in to HH', {error: err});
+        }
+    }
+    sendNegotiation = async (vacancyId: string, resumeId: string, message: string, token: string): Promise<any> => {
+        try {
+            const URL = `${this.apiUrl}/negotiations`;
+            const formData = new FormData();
+            formData.append('vacancy_id', vacancyId);
+            formData.append('resume_id', resumeId);
+            if (message) {
+                formData.append('message', message);
+            }
+
+            const response = await this.http.post(URL, formData, {
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'Content-Type': 'multipart/form-data',
+                    'HH-User-Agent': 'Recruiter AI/1.0 (arystambekdimash005@gmail.com)'
+                }
+            });
+
+            return response.data;
+        } catch (err) {
+            if (isHHAuthError(err)) {
+                throw err;
+            }
+            logger.error('Error sending HH negotiation', {vacancyId, error: err});
+
+            return {success: false, message: 'An error occurred, but the operation has continued.'};
+        }
+    };
+
+    getVacancy = async (vacancyName: any, paramsObj: any) => {
+        try {
+            const URL = `${this.apiUrl}/vacancies`;
+            const today = new Date();
+
+            const twoDaysAgo = new Date(today);
+            twoDaysAgo.setDate(today.getDate() - 2);
+
+            paramsObj.date_from = twoDaysAgo.toISOString().split('T')[0];
+            paramsObj.order_by = 'publication_time';
+            paramsObj.text = vacancyName;
+            if (!paramsObj.area || paramsObj.area.length === 0) {
+                paramsObj.area = process.env.HH_DEFAULT_AREA || '40';
+            }
+
+            // HH expects repeated keys for multi-value filters such as area or schedule.
+            const params = new URLSearchParams();
+            Object.entries(paramsObj).forEach(([key, value]) => {
+                if (value === undefined || value === null || value === '') return;
+                (Array.isArray(value) ? value : [value]).forEach(item => params.append(key, String(item)));
+            });
+
+            const response = await this.http.get(`${URL}?${params.toString()}`);
+            return response.data;
+        } catch (err: any) {
+            logger.error('Error searching HH vacancies', {error: err});
+            throw err;
+        }
+    }
+    getSuitableResumeId = async (vacancyId: string, token: string): Promise<any> => {
+        try {
+            const resumesURL = `${this.apiUrl}/vacancies/${vacancyId}/suitable_resumes`;
+            const vacancyURL = `${this.apiUrl}/vacancies/${vacancyId}`;
+
+            const resumeResponse = await this.http.get(resumesURL, {
+                headers: this.getHeaders(token)
+            });
+            const vacancyResponse = await this.http.get(vacancyURL, {
+                headers: this.getHeaders(token)
+            });
+
+            const resumes = resumeResponse.data.items.slice(0, 4);
+            const vacancy = vacancyResponse.data;
+
+            const resumeDetails = await Promise.all(resumes.map(async (resume: any) => {
+                const pdfContent = await getResumeText(this.source, resume, url => this.downloadPDF(url, token));
+                return {
+                    id: resume.id,
+                    data: pdfContent
+                };
+            }));
+
+            const vacancyDetails = `
+            Vacancy for ${vacancy.name}, located in ${vacancy.area.name}.
+            Salary: ${vacancy.salary?.from} to ${vacancy.salary?.to} ${vacancy.salary?.currency}.
+            Employment type: ${vacancy.employment.name}, Schedule: ${vacancy.schedule.name}.
+            Key skills required: ${vacancy.key_skills.map((skill: any) => skill.name).join(', ')}.
+        `;
+
+            const PROMPT = `
+            Get the most suitable resume id. WARNING : If there is no suitable resume id, then get any existing resume id.
+            Resumes:
+            ${resumeDetails.map((resume: any) => `
+                Resume ID: ${resume.id}
+                Resume data: ${resume.data}
+            `).join('\n')}
+       
+            Vacancy:
+            ${vacancyDetails}
+            
+            Return JSON in this format:
+            {
+                "resumeId": "string" | null
+            }
+        `;
+            const resumeIds = resumeDetails.map((resume: any) => String(resume.id));
+            const {resumeId} = await completeStructured({
+                task: 'resumeSelection',
+                prompt: PROMPT,
+                schema: z.object({
+                    resumeId: z.string().nullable().refine(
+                        id => id === null || resumeIds.includes(id),
+                        'resumeId must be one of the listed resume ids'
+                    )
+                })
+            });
+
+            if (resumeId) {
+                return resumeId;
+            } else {
+                const response = await this.http.get(`${this.apiUrl}/resumes/mine`, {
+                    headers: this.getHeaders(token)
+                });
+                return response.data.items[0].id;
+            }
+        } catch (err) {
+            if (err instanceof LLMError || isHHAuthError(err)) {
+                throw err;
+            }
+            logger.error('Error selecting HH resume', {vacancyId, error: err});
+        }
+    }
+    getOneResume = async (resumeId: string, token: string) => {
+        const URL = `${this.apiUrl}/resumes/${resumeId}`
+        const response = await this.http.get(`${URL}`, {
+            headers: this.getHeaders(token)
+        });
+        return response.data;
+
+    }
+
+    needsRefresh = (user: IUser): boolean => {
+        if (!user.hhTokenExpiresAt) return true;
+        return new Date(user.hhTokenExpiresAt).getTime() - TOKEN_EXPIRY_MARGIN_MS <= Date.now();
+    }
+
+    /**
+     * Refreshes the HH tokens when they are expired (or `force` is set, e.g. after a 401)
+     * and persists them. A rejected refresh token disconnects the user's HH account.
+     * HH refresh tokens are single-use, so concurrent refreshes for the same user on
+     * this instance share one request.
+     */
+    refreshAccessToken = async (user: IUser, force: boolean = false) => {
+        if (!user.hasHHAccount) {
+            return;
+        }
+        if (!force && !this.needsRefresh(user)) {
+            return;
+        }
+        const key = String(user._id);
+        let pending = this.refreshing.get(key);
+        if (!pending) {
+            pending = this.refreshStoredTokens(user);
+            this.refreshing.set(key, pending);
+        }
+        try {
+            Object.assign(user, await pending);
+        } finally {
+            if (this.refreshing.get(key) === pending) this.refreshing.delete(key);
+        }
+    }
+
+    /** The tokens as stored, with the raw refresh token value to compare-and-set against. */
+    private loadStoredTokens = async (userId: any) => {
+        const stored = await UserModel.collection.findOne(
+            {_id: new mongoose.Types.ObjectId(String(userId))},
+            {projection: {hhAccessToken: 1, hhRefreshToken: 1, hhTokenExpiresAt: 1}}
+        );
+        return {
+            rawRefreshToken: stored?.hhRefreshToken,
+            tokens: {
+                hhAccessToken: decryptSecret(stored?.hhAccessToken) || undefined,
+                hhRefreshToken: decryptSecret(stored?.hhRefreshToken) || undefined,
+                hhTokenExpiresAt: stored?.hhTokenExpiresAt,
+            } as StoredTokens
+        };
+    }
+
+    private refreshStoredTokens = async (user: IUser): Promise<StoredTokens> => {
+        const URL = `${this.apiUrl}/token`;
+        // Another instance, or a refresh that finished before this one started, may have rotated the tokens already.
+        const stored = await this.loadStoredTokens(user._id);
+        if (stored.tokens.hhAccessToken !== user.hhAccessToken && !this.needsRefresh(stored.tokens as IUser)) {
+            return stored.tokens;
+        }
+        try {
+            const data = new URLSearchParams({
+                refresh_token: stored.tokens.hhRefreshToken || 'none',
+                grant_type: "refresh_token"
+            });
+
+            const response = await this.http.post(URL, data, {
+                headers: {
+                    'Content-Type': 'application/x-www-form-urlencoded',
+                    'HH-User-Agent': 'Recruiter AI/1.0 (arystambekdimash005@gmail.com)'
+                }
+            });
+
+            const tokens = this.extractTokens(response);
+            const refreshed: StoredTokens = {
+                hhAccessToken: tokens.access_token,
+                hhRefreshToken: tokens.refresh_token,
+                hhTokenExpiresAt: new Date(Date.now() + tokens.expires_in * 1000),
+            };
+
+            // Written through the driver so the filter matches the stored ciphertext as is. If the token was
+            // replaced meanwhile, e.g. by the user signing in again, the newer row is left alone.
+            const result = await UserModel.collection.updateOne(
+                {_id: new mongoose.Types.ObjectId(String(user._id)), hhRefreshToken: stored.rawRefreshToken},
+                {
+                    $set: {
+                        hhAccessToken: encryptSecret(refreshed.hhAccessToken),
+                        hhRefreshToken: encryptSecret(refreshed.hhRefreshToken),
+                        hhTokenExpiresAt: refreshed.hhTokenExpiresAt
+                    }
+                }
+            );
+            if (result.matchedCount === 0) {
+                logger.warn('HH tokens changed during refresh, keeping the stored ones', {userId: user._id});
+            } else {
+                logger.info('HH tokens refreshed', {userId: user._id});
+            }
+            return refreshed;
+        } catch (err) {
+            const oauthError = axios.isAxiosError(err) ? err.response?.data : undefined;
+            if (oauthError?.error_description === 'token not expired') {
+                return stored.tokens;
+            }
+            if (oauthError?.error === 'invalid_grant') {
+                // A refresh on another instance may have used the token first; only a token still stored is revoked.
+                const current = await this.loadStoredTokens(user._id);
+                if (current.tokens.hhRefreshToken && current.tokens.hhRefreshToken !== stored.tokens.hhRefreshToken) {
+                    return current.tokens;
+                }
+                const reason = oauthError.error_description || oauthError.error;
+                await this.markDisconnected(user, reason);
+                throw new HHTokenRevokedError(reason);
+            }
+            logger.error('Failed to refresh HH tokens', {userId: user._id, error: err});
+            throw err;
+        }
+    }
+
+    markDisconnected = async (user: IUser, reason: string) => {
+        user.hasHHAccount = false;
+        user.hhDisconnectReason = reason;
+        user.hhDisconnectedAt = new Date();
+        try {
+            await UserModel.updateOne({_id: user._id}, {
+                $set: {
+                    hasHHAccount: false,
+                    hhDisconnectReason: reason,
+                    hhDisconnectedAt: user.hhDisconnectedAt
+                }
+            });
+        } catch (err) {
+            logger.error('Error marking HH account as disconnected', {userId: user._id, error: err});
+        }
+    }
+
+    /** Runs an authorized HH call, refreshing the token and retrying once on an auth error. */
+    withAuthRetry = async <T>(user: IUser, call: (token: string) => Promise<T>): Promise<T> => {
+        try {
+            return await call(user.hhAccessToken as string);
+        } catch (err) {
+            if (!isHHAuthError(err)) throw err;
+            await this.refreshAccessToken(user, true);
+            return call(user.hhAccessToken as string);
+        }
+    }
+
+    isConnected = (user: IUser): boolean => {
+        return !!user.hasHHAccount && !!user.hhAccessToken;
+    }
+
+    // HH vacancy search is public, so users without a linked account still get suggestions.
+    canSearch = (user: IUser): boolean => {
+        return true;
+    }
+
+    searchVacancies = async (query: VacancySearchQuery, user: IUser): Promise<VacancyPage> => {
+        const filters = query.filters || {};
+        const data = await this.getVacancy(query.text, {
+            page: query.page,
+            text: query.text,
+            only_with_salary: query.onlyWithSalary,
+            area: filters.areas,
+            salary: filters.salaryFrom,
+            currency: filters.salaryFrom ? filters.currency : undefined,
+            experience: filters.experience,
+            employment: filters.employment,
+            schedule: filters.schedule,
+            excluded_text: filters.excludedKeywords?.length ? filters.excludedKeywords.join(', ') : undefined,
+        });
+        return {
+            items: data.items.map((item: any) => this.toProviderVacancy(item)),
+            pages: data.pages
+        };
+    }
+
+    getVacancyDetail = async (vacancyId: string, user: IUser): Promise<any> => {
+        if (!this.isConnected(user)) {
+            const response = await this.http.get(`${this.apiUrl}/vacancies/${vacancyId}`);
+            return response.data;
+        }
+        return this.withAuthRetry(user, async token => {
+            const response = await this.http.get(`${this.apiUrl}/vacancies/${vacancyId}`, {
+                headers: this.getHeaders(token)
+            });
+            return response.data;
+        });
+    }
+
+    selectResume = async (vacancy: ProviderVacancy, user: IUser): Promise<ProviderResume | null> => {
+        const resumeId = await this.withAuthRetry(user, token => this.getSuitableResumeId(vacancy.id, token));
+        if (!resumeId) return null;
+        // Suitable resumes were just cached with their `updated_at`, so this is usually a hit.
+        const cached = await getCachedResume(this.source, resumeId);
+        if (cached) {
+            return {id: resumeId, text: cached.text};
+        }
+        const resumeDetail = await this.withAuthRetry(user, token => this.getOneResume(resumeId, token));
+        const text = await getResumeText(this.source, resumeDetail, url => this.downloadPDF(url, user.hhAccessToken as string));
+        return {id: resumeId, text};
+    }
+
+    getResumes = async (user: IUser): Promise<ProviderResume[]> => {
+        if (!this.isConnected(user)) return [];
+        return this.withAuthRetry(user, async token => {
+            const response = await this.http.get(`${this.apiUrl}/resumes/mine`, {
+                headers: this.getHeaders(token)
+            });
+            const resumes: any[] = response.data.items || [];
+            return Promise.all(resumes.map(async resume => ({
+                id: String(resume.id),
+                text: await getResumeText(this.source, resume, url => this.downloadPDF(url, token))
+            })));
+        });
+    }
+
+    apply = async (vacancy: ProviderVacancy, resume: ProviderResume, message: string, user: IUser): Promise<ApplyResult> => {
+        const result = await this.withAuthRetry(user, token => this.sendNegotiation(vacancy.id, resume.id, message, token));
+        if (result && result.success === false) {
+            return {success: false, message: result.message};
+        }
+        return {success: true, data: result};
+    }
+
+    /** One page of the applicant's negotiations, most recently updated first. */
+    getNegotiations = async (user: IUser, page: number, perPage: number = 50): Promise<{ items: any[], pages: number }> => {
+        return this.withAuthRetry(user, async token => {
+            const params = new URLSearchParams({
+                page: String(page),
+                per_page: String(perPage),
+                order_by: 'updated_at',
+                order: 'desc'
+            });
+            const response = await this.http.get(`${this.apiUrl}/negotiations?${params.toString()}`, {
+                headers: this.getHeaders(token)
+            });
+            return {items: response.data.items || [], pages: response.data.pages || 0};
+        });
+    }
+
+    getNegotiationMessages = async (user: IUser, negotiationId: string): Promise<any[]> => {
+        return this.withAuthRetry(user, async token => {
+            const response = await this.http.get(`${this.apiUrl}/negotiations/${negotiationId}/messages`, {
+                headers: this.getHeaders(token)
+            });
+            return response.data.items || [];
+        });
+    }
+
+    toProviderVacancy(item: any): ProviderVacancy {
+        return {
+            ...item,
+            source: this.source,
+            url: `https://hh.kz/vacancy/${item.id}/`,
+            snippet: item.snippet || {}
+        };
+    }
+
+    downloadPDF = async (url: string, token: string): Promise<Blob> => {
+        const response = await this.http.get<ArrayBuffer>(url, {
+            headers: this.getHeaders(token),
+            responseType: 'arraybuffer'
+        });
+        return new Blob([response.data]);
+    }
+
+    getMetrics = () => this.http.getMetrics();
+
+    extractTokens(response: any): TokenResponse {
+        return {
+            access_token: response.data.access_token,
+            refresh_token: response.data.refresh_token,
+            expires_in: response.data.expires_in
+        };
+    }
+
+    getHeaders(token: string): { [key: string]: string } {
+        return {
+            'Authorization': `Bearer ${token}`,
+            'HH-User-Agent': 'Recruiter AI/1.0 (arystambekdimash005@gmail.com)'
+        };
+    }
+}
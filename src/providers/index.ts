@@ -0,0 +1,26 @@
+import dotenv from "dotenv";
+import {IUser} from "../models";
+import {HHService} from "./hh_provider";
+import {LinkedInService} from "./linkedin_provider";
+import {VacancyProvider, VacancySource} from "./types";
+
+export * from "./types";
+export {HHService, HHTokenRevokedError} from "./hh_provider";
+export {LinkedInService} from "./linkedin_provider";
+
+dotenv.config();
+
+export const hhService = new HHService();
+// LinkedIn only opens job search and apply to partner apps, so the provider is off unless
+// LINKEDIN_API_URL points at an API that serves them. Otherwise every run would only log failures.
+export const linkedinService = process.env.LINKEDIN_API_URL ? new LinkedInService() : undefined;
+
+const providers: VacancyProvider[] = linkedinService ? [hhService, linkedinService] : [hhService];
+
+export const getProvider = (source: VacancySource | string): VacancyProvider | undefined => {
+    return providers.find(provider => provider.source === source);
+};
+
+export const getProvidersForUser = (user: IUser): VacancyProvider[] => {
+    return providers.filter(provider => provider.canSearch(user));
+};
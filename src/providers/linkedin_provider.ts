@@ -0,0 +1,158 @@
+import axios from "axios";
+import {IUser, UserModel} from "../models";
+import {ApplyResult, ProviderResume, ProviderVacancy, VacancyPage, VacancyProvider, VacancySearchQuery} from "./types";
+import {logger} from "../logger";
+
+const PAGE_SIZE = 25;
+
+export interface LinkedInServiceOptions {
+    apiUrl?: string;
+    oauthUrl?: string;
+}
+
+// LinkedIn's job search and apply endpoints are only available to partner apps,
+// so the base URL is configurable and the response mapping is kept in one place.
+// The registry only enables this provider when LINKEDIN_API_URL is set.
+export class LinkedInService implements VacancyProvider {
+    readonly source = 'linkedin' as const;
+    private readonly apiUrl: string;
+    private readonly oauthUrl: string;
+
+    constructor(options: LinkedInServiceOptions = {}) {
+        this.apiUrl = options.apiUrl || process.env.LINKEDIN_API_URL || 'https://api.linkedin.com/v2';
+        this.oauthUrl = options.oauthUrl || process.env.LINKEDIN_OAUTH_URL || 'https://www.linkedin.com/oauth/v2';
+    }
+
+    isConnected = (user: IUser): boolean => {
+        return !!user.hasLinkedinAccount && !!user.linkedinAccessToken;
+    }
+
+    canSearch = (user: IUser): boolean => {
+        return this.isConnected(user);
+    }
+
+    refreshAccessToken = async (user: IUser) => {
+        if (!this.isConnected(user) || !user.linkedinRefreshToken) {
+            return;
+        }
+        try {
+            const data = new URLSearchParams({
+                grant_type: 'refresh_token',
+                refresh_token: user.linkedinRefreshToken,
+                client_id: process.env.LINKEDIN_CLIENT_ID || '',
+                client_secret: process.env.LINKEDIN_SECRET_KEY || ''
+            });
+            const response = await axios.post(`${this.oauthUrl}/accessToken`, data, {
+                headers: {'Content-Type': 'application/x-www-form-urlencoded'}
+            });
+
+            user.linkedinAccessToken = response.data.access_token;
+            user.linkedinRefreshToken = response.data.refresh_token || user.linkedinRefreshToken;
+            await UserModel.updateOne({_id: user._id}, {
+                $set: {
+                    linkedinAccessToken: user.linkedinAccessToken,
+                    linkedinRefreshToken: user.linkedinRefreshToken
+                }
+            });
+        } catch (err) {
+            logger.error('Failed to refresh LinkedIn token', {userId: user._id, error: err});
+            throw err;
+        }
+    }
+
+    searchVacancies = async (query: VacancySearchQuery, user: IUser): Promise<VacancyPage> => {
+        const params = new URLSearchParams({
+            keywords: query.text,
+            start: String((query.page - 1) * PAGE_SIZE),
+            count: String(PAGE_SIZE)
+        });
+        const response = await axios.get(`${this.apiUrl}/jobSearch?${params.toString()}`, {
+            headers: this.getHeaders(user.linkedinAccessToken as string)
+        });
+
+        let items: ProviderVacancy[] = (response.data.elements || []).map((job: any) => this.toProviderVacancy(job));
+        if (query.onlyWithSalary) {
+            items = items.filter(item => item.salary);
+        }
+        const total = response.data.paging?.total || 0;
+        return {items, pages: Math.ceil(total / PAGE_SIZE)};
+    }
+
+    getVacancyDetail = async (vacancyId: string, user: IUser): Promise<any> => {
+        const response = await axios.get(`${this.apiUrl}/jobs/${vacancyId}`, {
+            headers: this.getHeaders(user.linkedinAccessToken as string)
+        });
+        return response.data;
+    }
+
+    // LinkedIn has no separate resumes, the member profile is what gets attached.
+    selectResume = async (vacancy: ProviderVacancy, user: IUser): Promise<ProviderResume | null> => {
+        const [profile] = await this.getResumes(user);
+        return profile || null;
+    }
+
+    getResumes = async (user: IUser): Promise<ProviderResume[]> => {
+        if (!this.isConnected(user)) return [];
+        const response = await axios.get(`${this.apiUrl}/me`, {
+            headers: this.getHeaders(user.linkedinAccessToken as string)
+        });
+        const profile = response.data;
+        const text = [
+            profile.localizedHeadline,
+            profile.summary,
+            ...(profile.positions || []).map((p: any) => `${p.title} at ${p.companyName}`)
+        ].filter(Boolean).join('\n');
+        return [{id: profile.id || user.linkedinId || '', text}];
+    }
+
+    apply = async (vacancy: ProviderVacancy, resume: ProviderResume, message: string, user: IUser): Promise<ApplyResult> => {
+        try {
+            const response = await axios.post(`${this.apiUrl}/jobs/${vacancy.id}/applications`, {
+                profileId: resume.id,
+                coverLetter: message
+            }, {
+                headers: this.getHeaders(user.linkedinAccessToken as string)
+            });
+            return {success: true, data: response.data};
+        } catch (err) {
+            if (axios.isAxiosError(err) && err.response) {
+                logger.error('LinkedIn rejected the application', {vacancyId: vacancy.id, error: err});
+                return {success: false, message: `LinkedIn responded with ${err.response.status}`};
+            }
+            logger.error('Unexpected LinkedIn apply error', {vacancyId: vacancy.id, error: err});
+            return {success: false, message: 'An error occurred, but the operation has continued.'};
+        }
+    }
+
+    toProviderVacancy(job: any): ProviderVacancy {
+        return {
+            id: String(job.id),
+            source: this.source,
+            name: job.title,
+            url: job.applyUrl || `https://www.linkedin.com/jobs/view/${job.id}/`,
+            employer: {
+                id: job.companyId ? String(job.companyId) : undefined,
+                name: job.companyName || '',
+                logo_urls: job.companyLogo ? {'90': job.companyLogo} : null
+            },
+            snippet: {
+                requirement: job.requirements || job.description || '',
+                responsibility: job.responsibilities || ''
+            },
+            salary: job.salary ? {
+                from: job.salary.min ?? null,
+                to: job.salary.max ?? null,
+                currency: job.salary.currency ?? null
+            } : null,
+            address: job.location ? {raw: job.location} : null,
+            area: job.location ? {name: job.location} : null
+        };
+    }
+
+    getHeaders(token: string): { [key: string]: string } {
+        return {
+            'Authorization': `Bearer ${token}`,
+            'X-Restli-Protocol-Version': '2.0.0'
+        };
+    }
+}
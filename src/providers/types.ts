@@ -0,0 +1,83 @@
+import {IPositionFilters, IUser} from "../models";
+
+export type VacancySource = 'hh' | 'linkedin';
+
+export interface ProviderVacancy {
+    id: string;
+    source: VacancySource;
+    name: string;
+    url: string;
+    employer: {
+        id?: string;
+        name: string;
+        logo_urls?: { [size: string]: string } | null;
+    };
+    snippet: {
+        requirement?: string | null;
+        responsibility?: string | null;
+    };
+    experience?: { id: string; name?: string } | null;
+    employment?: { id: string; name?: string } | null;
+    schedule?: { id: string; name?: string } | null;
+    salary?: {
+        from?: number | null;
+        to?: number | null;
+        currency?: string | null;
+    } | null;
+    address?: { raw?: string } | null;
+    area?: { id?: string; name: string } | null;
+
+    [key: string]: any;
+}
+
+export interface VacancySearchQuery {
+    text: string;
+    page: number;
+    onlyWithSalary?: boolean;
+    filters?: IPositionFilters;
+}
+
+export interface VacancyPage {
+    items: ProviderVacancy[];
+    pages: number;
+}
+
+export interface ProviderResume {
+    id: string;
+    text: string;
+}
+
+export interface ApplyResult {
+    success: boolean;
+    message?: string;
+    data?: any;
+}
+
+/**
+ * A job board the auto-apply pipeline can search and apply through.
+ * Implementations take their base URLs from the constructor so they can be
+ * pointed at a local HTTP stub.
+ */
+export interface VacancyProvider {
+    readonly source: VacancySource;
+
+    /** Whether the user has linked an account on this board. */
+    isConnected(user: IUser): boolean;
+
+    /** Whether vacancies can be searched for this user (some boards allow anonymous search). */
+    canSearch(user: IUser): boolean;
+
+    /** Refreshes the user's tokens if they are expired, or always when `force` is set. */
+    refreshAccessToken(user: IUser, force?: boolean): Promise<void>;
+
+    searchVacancies(query: VacancySearchQuery, user: IUser): Promise<VacancyPage>;
+
+    getVacancyDetail(vacancyId: string, user: IUser): Promise<any>;
+
+    selectResume(vacancy: ProviderVacancy, user: IUser): Promise<ProviderResume | null>;
+
+    /** All of the user's resumes with their text, used to score vacancies. Empty when not connected. */
+    getResumes(user: IUser): Promise<ProviderResume[]>;
+
+    apply(vacancy: ProviderVacancy, resume: ProviderResume, message: string, user: IUser): Promise<ApplyResult>;
+}
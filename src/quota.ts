@@ -0,0 +1,239 @@
+import mongoose, {Schema, Document, Model} from 'mongoose';
+import {IPosition, IUser, VacanciesModel} from "./models";
+import {logger} from "./logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that used up a slot: claimed, sent, or drafted and still on its way to being sent.
+export const COUNTED_STATUSES = ['claimed', 'applied', 'pending_review', 'approved', 'sending'];
+
+export interface ApplicationLimits {
+    perRunPerPosition: number;
+    dailyPerUser?: number;
+    weeklyPerUser?: number;
+    dailyPerPosition?: number;
+    weeklyPerPosition?: number;
+}
+
+const DEFAULT_PLANS: { [plan: string]: ApplicationLimits } = {
+    free: {perRunPerPosition: 2, dailyPerUser: 10, weeklyPerUser: 40},
+    basic: {perRunPerPosition: 5, dailyPerUser: 30, weeklyPerUser: 150},
+    pro: {perRunPerPosition: 10, dailyPerUser: 100, weeklyPerUser: 500},
+};
+
+/** Plan limits, overridable with a JSON object in PLAN_LIMITS keyed by plan name. */
+const getPlans = (): { [plan: string]: ApplicationLimits } => {
+    if (!process.env.PLAN_LIMITS) return DEFAULT_PLANS;
+    try {
+        return {...DEFAULT_PLANS, ...JSON.parse(process.env.PLAN_LIMITS)};
+    } catch (err) {
+        logger.error('PLAN_LIMITS is not valid JSON, using default plans', {error: err});
+        return DEFAULT_PLANS;
+    }
+};
+
+export const getPlanNames = (): string[] => Object.keys(getPlans());
+
+// Legacy tiering for users without a plan: fewer applications per position the more positions they track.
+const getApplicationsPerPosition = (numPositions: number): number => {
+    if (numPositions <= 4) return 7;
+    if (numPositions >= 8) return 2;
+    return 6;
+};
+
+export const resolveLimits = (user: IUser, position: IPosition): ApplicationLimits => {
+    const plan = user.plan ? getPlans()[user.plan] : undefined;
+    const base: ApplicationLimits = plan
+        ? {...plan}
+        : {perRunPerPosition: getApplicationsPerPosition(user.positions?.length || 0)};
+
+    return {
+        perRunPerPosition: position.applicationLimits?.perRun ?? base.perRunPerPosition,
+        dailyPerUser: user.applicationLimits?.daily ?? base.dailyPerUser,
+        weeklyPerUser: user.applicationLimits?.weekly ?? base.weeklyPerUser,
+        dailyPerPosition: position.applicationLimits?.daily ?? base.dailyPerPosition,
+        weeklyPerPosition: position.applicationLimits?.weekly ?? base.weeklyPerPosition,
+    };
+};
+
+const countSince = async (filter: { [key: string]: any }, since: Date) => {
+    return VacanciesModel.countDocuments({...filter, status: {$in: COUNTED_STATUSES}, createdAt: {$gte: since}});
+};
+
+const remainingFor = async (filter: { [key: string]: any }, daily?: number, weekly?: number): Promise<number> => {
+    const now = Date.now();
+    let remaining = Infinity;
+    if (daily !== undefined) {
+        remaining = Math.min(remaining, daily - await countSince(filter, new Date(now - DAY_MS)));
+    }
+    if (weekly !== undefined) {
+        remaining = Math.min(remaining, weekly - await countSince(filter, new Date(now - 7 * DAY_MS)));
+    }
+    return Math.max(0, remaining);
+};
+
+type QuotaWindow = 'day' | 'week';
+
+const QUOTA_WINDOWS: QuotaWindow[] = ['day', 'week'];
+
+interface IQuotaCounter extends Document {
+    user: string;
+    window: QuotaWindow;
+    start: Date;
+    count: number;
+}
+
+const QuotaCounterSchema: Schema<IQuotaCounter> = new mongoose.Schema<IQuotaCounter>({
+    user: {type: String, required: true},
+    window: {type: String, enum: QUOTA_WINDOWS, required: true},
+    start: {type: Date, required: true},
+    count: {type: Number, required: true, default: 0},
+});
+
+QuotaCounterSchema.index({user: 1, window: 1, start: 1}, {unique: true});
+// A counter is only read while its window is current; the weekly one is the longest.
+QuotaCounterSchema.index({start: 1}, {expireAfterSeconds: 8 * DAY_MS / 1000});
+
+const QuotaCounterModel: Model<IQuotaCounter> = mongoose.model<IQuotaCounter>('QuotaCounter', QuotaCounterSchema);
+
+/** Start of the UTC day, or of the UTC week beginning on Monday, that contains `at`. */
+const windowStart = (window: QuotaWindow, at: Date): Date => {
+    const start = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+    if (window === 'week') start.setUTCDate(start.getUTCDate() - (start.getUTCDay() + 6) % 7);
+    return start;
+};
+
+// A new counter starts from the slots already taken in its window, so counters created mid-window
+// (the first run after a deploy, or a plan that gained a cap) do not hand out a fresh allowance.
+const ensureCounter = async (user: string, window: QuotaWindow, start: Date) => {
+    if (await QuotaCounterModel.exists({user, window, start})) return;
+    const count = await countSince({user}, start);
+    try {
+        await QuotaCounterModel.updateOne({user, window, start}, {$setOnInsert: {count}}, {upsert: true});
+    } catch (err: any) {
+        // Another job created it first; its count wins.
+        if (err?.code !== 11000) throw err;
+    }
+};
+
+const reserveWindow = async (user: string, window: QuotaWindow, cap: number, at: Date): Promise<boolean> => {
+    const start = windowStart(window, at);
+    await ensureCounter(user, window, start);
+    const result = await QuotaCounterModel.updateOne({user, window, start, count: {$lt: cap}}, {$inc: {count: 1}});
+    return result.modifiedCount === 1;
+};
+
+const releaseWindow = async (user: string, window: QuotaWindow, at: Date) => {
+    await QuotaCounterModel.updateOne({user, window, start: windowStart(window, at), count: {$gt: 0}}, {$inc: {count: -1}});
+};
+
+/**
+ * Gives back a user-level slot taken at `reservedAt`, e.g. for a draft that
+ * was rejected or could not be sent. Best effort: a failed release only
+ * leaves the slot used until its window ends.
+ */
+export const releaseUserSlot = async (userId: string, reservedAt: Date) => {
+    try {
+        await Promise.all(QUOTA_WINDOWS.map(window => releaseWindow(userId, window, reservedAt)));
+    } catch (err) {
+        logger.warn('Error releasing quota slot', {userId, error: err});
+    }
+};
+
+/**
+ * Slots for one position in one run. The position's own slots are taken
+ * synchronously, before the slow cover-letter and apply calls, so vacancies
+ * processed concurrently can never take more than the position allows. The
+ * user-level slot is then taken from the shared counters. Failed vacancies
+ * release both.
+ */
+export class PositionQuota {
+    private readonly reservedAt: Date[] = [];
+
+    constructor(private readonly userQuota: UserQuota, private remaining: number) {
+    }
+
+    get exhausted(): boolean {
+        return this.remaining <= 0 || this.userQuota.exhausted;
+    }
+
+    /** Slots still free for this position, or 0 once the user's caps turned a reservation down. */
+    get available(): number {
+        return this.userQuota.exhausted ? 0 : Math.max(0, this.remaining);
+    }
+
+    tryReserve = async (): Promise<boolean> => {
+        if (this.exhausted) return false;
+        this.remaining--;
+        const at = new Date();
+        let reserved = false;
+        try {
+            reserved = await this.userQuota.tryReserve(at);
+        } finally {
+            if (reserved) {
+                this.reservedAt.push(at);
+            } else {
+                this.remaining++;
+            }
+        }
+        return reserved;
+    }
+
+    release = async () => {
+        this.remaining++;
+        const at = this.reservedAt.pop();
+        if (at) await releaseUserSlot(String(this.userQuota.userId), at);
+    }
+}
+
+/**
+ * User-level daily and weekly caps. Slots are taken with a conditional $inc on
+ * a counter per user and UTC day or week, so position jobs of the same user
+ * running on different workers or instances can never overshoot the caps
+ * between them.
+ */
+export class UserQuota {
+    private readonly windows: { window: QuotaWindow; cap: number }[];
+    private refused = false;
+
+    constructor(private readonly user: IUser) {
+        const limits = resolveLimits(user, {} as IPosition);
+        this.windows = [
+            {window: 'day' as QuotaWindow, cap: limits.dailyPerUser},
+            {window: 'week' as QuotaWindow, cap: limits.weeklyPerUser},
+        ].filter((w): w is { window: QuotaWindow; cap: number } => w.cap !== undefined);
+    }
+
+    get userId(): string {
+        return String(this.user._id);
+    }
+
+    /** Set once a reservation was turned down; the counters only go down again when slots are released. */
+    get exhausted(): boolean {
+        return this.refused;
+    }
+
+    tryReserve = async (at: Date): Promise<boolean> => {
+        const taken: QuotaWindow[] = [];
+        for (const {window, cap} of this.windows) {
+            if (!(await reserveWindow(this.userId, window, cap, at))) {
+                await Promise.all(taken.map(w => releaseWindow(this.userId, w, at)));
+                this.refused = true;
+                return false;
+            }
+            taken.push(window);
+        }
+        return true;
+    }
+
+    forPosition = async (position: IPosition): Promise<PositionQuota> => {
+        const limits = resolveLimits(this.user, position);
+        // A position is only ever processed by one job at a time, so counting its own claims is enough here.
+        const windowRemaining = await remainingFor(
+            {user: this.userId, position_id: String(position._id)},
+            limits.dailyPerPosition,
+            limits.weeklyPerPosition
+        );
+        return new PositionQuota(this, Math.min(limits.perRunPerPosition, windowRemaining));
+    }
+}
@@ -0,0 +1,79 @@
+import mongoose, {Schema, Document, Model} from 'mongoose';
+import {parsePDF} from "./pdf";
+
+// Bumped when parsing changes, so texts cached by an older parser are downloaded again. 2: page text only, without PDF metadata.
+const RESUME_TEXT_FORMAT = 2;
+
+export interface IResume extends Document {
+    source: string;
+    resumeId: string;
+    title?: string;
+    text: string;
+    textFormat?: number;
+    sourceUpdatedAt?: Date;
+    fetchedAt: Date;
+}
+
+const ResumeSchema: Schema<IResume> = new mongoose.Schema<IResume>({
+    source: {type: String, required: true, default: 'hh'},
+    resumeId: {type: String, required: true},
+    title: {type: String},
+    text: {type: String, default: ''},
+    textFormat: {type: Number, default: RESUME_TEXT_FORMAT},
+    sourceUpdatedAt: {type: Date},
+    fetchedAt: {type: Date, required: true, default: Date.now},
+});
+
+ResumeSchema.index({source: 1, resumeId: 1}, {unique: true});
+
+export const ResumeModel: Model<IResume> = mongoose.model<IResume>('Resume', ResumeSchema);
+
+/** The parts of an HH resume listing needed to decide whether the cached text is stale. */
+export interface ResumeSummary {
+    id: string;
+    title?: string;
+    updated_at?: string;
+    download: { pdf: { url: string } };
+}
+
+export const getCachedResume = async (source: string, resumeId: string) => {
+    return ResumeModel.findOne({source, resumeId}).lean();
+};
+
+// Vacancies on a page are processed concurrently, so parallel misses share one download.
+const inFlight = new Map<string, Promise<string>>();
+
+/**
+ * Returns the resume text, downloading and parsing the PDF only when nothing
+ * is cached yet, the board reports a newer `updated_at`, or the cached text
+ * came from an older parser.
+ */
+export const getResumeText = async (source: string, summary: ResumeSummary, download: (url: string) => Promise<Blob>): Promise<string> => {
+    const updatedAt = summary.updated_at ? new Date(summary.updated_at) : undefined;
+    const cached = await getCachedResume(source, summary.id);
+    const isFresh = cached && updatedAt && cached.sourceUpdatedAt && cached.textFormat === RESUME_TEXT_FORMAT
+        && cached.sourceUpdatedAt.getTime() >= updatedAt.getTime();
+    if (cached && isFresh) {
+        return cached.text;
+    }
+
+    const key = `${source}:${summary.id}`;
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const fetching = (async () => {
+        const text = await parsePDF(await download(summary.download.pdf.url));
+        await ResumeModel.updateOne(
+            {source, resumeId: summary.id},
+            {$set: {title: summary.title, text, textFormat: RESUME_TEXT_FORMAT, sourceUpdatedAt: updatedAt, fetchedAt: new Date()}},
+            {upsert: true}
+        );
+        return text;
+    })();
+    inFlight.set(key, fetching);
+    try {
+        return await fetching;
+    } finally {
+        inFlight.delete(key);
+    }
+};
@@ -0,0 +1,203 @@
+import mongoose, {Schema, Document, Model} from 'mongoose';
+import {logger} from "./logger";
+import {applicationAttemptsTotal, runDurationSeconds} from "./metrics";
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'skipped';
+
+export type AttemptOutcome =
+    'filtered'
+    | 'duplicate'
+    | 'cover_letter_failed'
+    | 'negotiation_failed'
+    | 'applied'
+    | 'drafted'
+    | 'error';
+
+export interface IRun extends Document {
+    trigger: string;
+    status: RunStatus;
+    startedAt: Date;
+    finishedAt?: Date;
+    usersCount: number;
+    outcomes: Map<string, number>;
+    error?: string;
+    skipReason?: string;
+    instance?: string;
+    // Set once every user job of the run is queued; until then the run cannot be finished.
+    enqueuedAt?: Date;
+    // The skips themselves are in RunUserSkipModel, so a run over many users stays a small document.
+    skippedUsersCount: number;
+}
+
+export interface IRunUserSkip extends Document {
+    run: mongoose.Types.ObjectId;
+    user: string;
+    reason: string;
+    createdAt?: Date;
+}
+
+export interface IApplicationAttempt extends Document {
+    run: mongoose.Types.ObjectId;
+    user: string;
+    position: string;
+    position_id?: string;
+    vacancy_id: string;
+    source: string;
+    job_name: string;
+    employer_name: string;
+    outcome: AttemptOutcome;
+    reason?: string;
+    createdAt?: Date;
+}
+
+const RunSchema: Schema<IRun> = new mongoose.Schema<IRun>({
+    trigger: {type: String, default: 'cron'},
+    status: {type: String, enum: ['running', 'completed', 'failed', 'skipped'], default: 'running'},
+    startedAt: {type: Date, required: true, default: Date.now},
+    finishedAt: {type: Date},
+    usersCount: {type: Number, default: 0},
+    outcomes: {type: Map, of: Number, default: {}},
+    error: {type: String},
+    skipReason: {type: String},
+    instance: {type: String},
+    enqueuedAt: {type: Date},
+    skippedUsersCount: {type: Number, default: 0},
+});
+
+RunSchema.index({startedAt: -1});
+
+const RunUserSkipSchema: Schema<IRunUserSkip> = new mongoose.Schema<IRunUserSkip>(
+    {
+        run: {type: Schema.Types.ObjectId, ref: 'Run', required: true},
+        user: {type: String, ref: 'User', required: true},
+        reason: {type: String, required: true},
+    },
+    {
+        timestamps: {createdAt: true, updatedAt: false},
+    }
+);
+
+RunUserSkipSchema.index({run: 1, user: 1});
+
+const ApplicationAttemptSchema: Schema<IApplicationAttempt> = new mongoose.Schema<IApplicationAttempt>(
+    {
+        run: {type: Schema.Types.ObjectId, ref: 'Run', required: true},
+        user: {type: String, ref: 'User', required: true},
+        position: {type: String, required: true},
+        position_id: {type: String},
+        vacancy_id: {type: String, required: true},
+        source: {type: String, default: 'hh'},
+        job_name: {type: String},
+        employer_name: {type: String},
+        outcome: {
+            type: String,
+            enum: ['filtered', 'duplicate', 'cover_letter_failed', 'negotiation_failed', 'applied', 'drafted', 'error'],
+            required: true
+        },
+        reason: {type: String},
+    },
+    {
+        timestamps: {createdAt: true, updatedAt: false},
+    }
+);
+
+ApplicationAttemptSchema.index({run: 1});
+ApplicationAttemptSchema.index({user: 1, createdAt: -1});
+ApplicationAttemptSchema.index({user: 1, position_id: 1, createdAt: -1});
+
+export const RunModel: Model<IRun> = mongoose.model<IRun>('Run', RunSchema);
+export const ApplicationAttemptModel: Model<IApplicationAttempt> = mongoose.model<IApplicationAttempt>('ApplicationAttempt', ApplicationAttemptSchema);
+export const RunUserSkipModel: Model<IRunUserSkip> = mongoose.model<IRunUserSkip>('RunUserSkip', RunUserSkipSchema);
+
+export const startRun = async (trigger: string = 'cron', instance?: string): Promise<IRun> => {
+    return RunModel.create({trigger, instance, status: 'running', startedAt: new Date()});
+};
+
+export const recordSkippedRun = async (trigger: string, skipReason: string, instance?: string) => {
+    try {
+        const now = new Date();
+        await RunModel.create({trigger, instance, status: 'skipped', skipReason, startedAt: now, finishedAt: now});
+    } catch (err) {
+        logger.error('Error recording skipped run', {error: err});
+    }
+};
+
+/**
+ * Aggregates the outcomes and closes the run. Only a run still marked running is
+ * updated, so when several workers race to finish a run exactly one gets true.
+ */
+export const finishRun = async (runId: mongoose.Types.ObjectId, error?: unknown): Promise<boolean> => {
+    try {
+        const counts = await ApplicationAttemptModel.aggregate([
+            {$match: {run: runId}},
+            {$group: {_id: '$outcome', count: {$sum: 1}}}
+        ]);
+        const outcomes: { [key: string]: number } = {};
+        counts.forEach((c: any) => outcomes[c._id] = c.count);
+
+        const update: { [key: string]: any } = {
+            outcomes,
+            status: error ? 'failed' : 'completed',
+            finishedAt: new Date()
+        };
+        if (error) update.error = String((error as any)?.message || error);
+        const run = await RunModel.findOneAndUpdate(
+            {_id: runId, status: 'running'},
+            {$set: update},
+            {new: true, projection: {trigger: 1, startedAt: 1, finishedAt: 1, status: 1}}
+        );
+        if (!run) return false;
+        runDurationSeconds.observe(
+            {trigger: run.trigger, status: run.status},
+            ((run.finishedAt as Date).getTime() - run.startedAt.getTime()) / 1000
+        );
+        return true;
+    } catch (err) {
+        logger.error('Error finishing run', {runId, error: err});
+        return false;
+    }
+};
+
+export const recordUserSkip = async (runId: mongoose.Types.ObjectId | undefined, user: any, reason: string) => {
+    if (!runId) return;
+    await recordUserSkips(runId, [{user: String(user._id), reason}]);
+};
+
+export const recordUserSkips = async (runId: mongoose.Types.ObjectId, skips: { user: string; reason: string }[]) => {
+    if (skips.length === 0) return;
+    try {
+        await RunUserSkipModel.insertMany(skips.map(skip => ({run: runId, ...skip})), {ordered: false});
+        await RunModel.updateOne({_id: runId}, {$inc: {skippedUsersCount: skips.length}});
+    } catch (err) {
+        logger.error('Error recording skipped users', {runId, error: err});
+    }
+};
+
+// Recording must never break the application flow, so failures are only logged.
+export const recordAttempt = async (
+    runId: mongoose.Types.ObjectId | undefined,
+    user: any,
+    position: { position: string; _id?: any },
+    vacancy: any,
+    outcome: AttemptOutcome,
+    reason?: string
+) => {
+    applicationAttemptsTotal.inc({source: vacancy.source || 'hh', outcome});
+    if (!runId) return;
+    try {
+        await ApplicationAttemptModel.create({
+            run: runId,
+            user: String(user._id),
+            position: position.position,
+            position_id: position._id ? String(position._id) : undefined,
+            vacancy_id: vacancy.id,
+            source: vacancy.source || 'hh',
+            job_name: vacancy.name,
+            employer_name: vacancy.employer?.name,
+            outcome,
+            reason
+        });
+    } catch (err) {
+        logger.error('Error recording application attempt', {runId, error: err});
+    }
+};
@@ -0,0 +1,107 @@
+import mongoose, {Schema, Document, Model} from 'mongoose';
+import crypto from "crypto";
+import os from "os";
+import {logger} from "./logger";
+
+interface ILock extends Document<string> {
+    _id: string;
+    owner: string;
+    acquiredAt: Date;
+    heartbeatAt: Date;
+    expiresAt: Date;
+}
+
+const LockSchema: Schema<ILock> = new mongoose.Schema<ILock>({
+    _id: {type: String, required: true},
+    owner: {type: String, required: true},
+    acquiredAt: {type: Date, required: true},
+    heartbeatAt: {type: Date, required: true},
+    expiresAt: {type: Date, required: true},
+});
+
+const LockModel: Model<ILock> = mongoose.model<ILock>('Lock', LockSchema);
+
+export const instanceId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+export interface LeaseOptions {
+    ttlMs: number;
+    heartbeatMs: number;
+}
+
+export interface Lease {
+    name: string;
+    owner: string;
+    isLost: () => boolean;
+    release: () => Promise<void>;
+}
+
+export interface LockHolder {
+    owner: string;
+    expiresAt: Date;
+}
+
+/**
+ * Takes the named lease if it is free or expired. Returns null when another
+ * instance holds it. While held, the lease is extended every `heartbeatMs`.
+ */
+export const acquireLease = async (name: string, options: LeaseOptions): Promise<Lease | null> => {
+    const owner = instanceId;
+    const now = new Date();
+    try {
+        await LockModel.findOneAndUpdate(
+            {_id: name, $or: [{expiresAt: {$lte: now}}, {owner}]},
+            {
+                $set: {
+                    owner,
+                    acquiredAt: now,
+                    heartbeatAt: now,
+                    expiresAt: new Date(now.getTime() + options.ttlMs)
+                }
+            },
+            {upsert: true, new: true}
+        );
+    } catch (err: any) {
+        if (err?.code === DUPLICATE_KEY_ERROR) return null;
+        throw err;
+    }
+
+    let lost = false;
+    const heartbeat = setInterval(async () => {
+        try {
+            const beatAt = new Date();
+            const result = await LockModel.updateOne(
+                {_id: name, owner},
+                {$set: {heartbeatAt: beatAt, expiresAt: new Date(beatAt.getTime() + options.ttlMs)}}
+            );
+            if (result.matchedCount === 0) {
+                lost = true;
+                clearInterval(heartbeat);
+                logger.error('Lease was lost', {lease: name, owner});
+            }
+        } catch (err) {
+            logger.error('Error extending lease', {lease: name, error: err});
+        }
+    }, options.heartbeatMs);
+    heartbeat.unref();
+
+    return {
+        name,
+        owner,
+        isLost: () => lost,
+        release: async () => {
+            clearInterval(heartbeat);
+            try {
+                await LockModel.deleteOne({_id: name, owner});
+            } catch (err) {
+                logger.error('Error releasing lease', {lease: name, error: err});
+            }
+        }
+    };
+};
+
+export const getLeaseHolder = async (name: string): Promise<LockHolder | null> => {
+    const lock = await LockModel.findOne({_id: name, expiresAt: {$gt: new Date()}}).lean();
+    return lock ? {owner: lock.owner, expiresAt: lock.expiresAt} : null;
+};
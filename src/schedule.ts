@@ -0,0 +1,76 @@
+import {CronTime} from 'cron';
+import {IUserSchedule} from "./models";
+
+export const DEFAULT_TIMEZONE = 'Asia/Qyzylorda';
+
+// Users without a schedule keep the cadence of the old global job: every two hours, every day.
+const DEFAULT_TIMES = Array.from({length: 12}, (_, i) => `${String(i * 2).padStart(2, '0')}:00`);
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export interface ResolvedSchedule {
+    enabled: boolean;
+    timezone: string;
+    days: number[];
+    times: string[];
+}
+
+export const resolveSchedule = (schedule?: IUserSchedule): ResolvedSchedule => ({
+    enabled: schedule?.enabled !== false,
+    timezone: schedule?.timezone || DEFAULT_TIMEZONE,
+    days: schedule?.days?.length ? schedule.days : ALL_DAYS,
+    times: schedule?.times?.length ? schedule.times : DEFAULT_TIMES,
+});
+
+const isValidTimezone = (timezone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', {timeZone: timezone});
+        return true;
+    } catch (err) {
+        return false;
+    }
+};
+
+/** Returns a message describing the first problem with a schedule, or null when it is valid. */
+export const validateSchedule = (schedule: any): string | null => {
+    if (!schedule || typeof schedule !== 'object') return 'schedule must be an object';
+    const {enabled, timezone, days, times} = schedule;
+    if (enabled !== undefined && typeof enabled !== 'boolean') return '"enabled" must be a boolean';
+    if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+        return '"timezone" must be an IANA timezone such as Asia/Almaty';
+    }
+    if (days !== undefined && (!Array.isArray(days) || !days.every(d => Number.isInteger(d) && d >= 0 && d <= 6))) {
+        return '"days" must be weekdays from 0 (Sunday) to 6 (Saturday)';
+    }
+    if (times !== undefined && (!Array.isArray(times) || !times.every(t => typeof t === 'string' && TIME_PATTERN.test(t)))) {
+        return '"times" must be local times formatted as HH:mm';
+    }
+    return null;
+};
+
+/** The first slot strictly after `after`, in the schedule's timezone, or null when the schedule is disabled. */
+export const nextScheduledRun = (schedule: IUserSchedule | undefined, after: Date = new Date()): Date | null => {
+    const resolved = resolveSchedule(schedule);
+    if (!resolved.enabled) return null;
+
+    const days = resolved.days.join(',');
+    let next: Date | null = null;
+    for (const time of resolved.times) {
+        const [hour, minute] = time.split(':').map(Number);
+        const candidate = new CronTime(`${minute} ${hour} * * ${days}`, resolved.timezone)
+            .getNextDateFrom(after, resolved.timezone)
+            .toJSDate();
+        if (!next || candidate < next) next = candidate;
+    }
+    return next;
+};
+
+/**
+ * Users whose slot has come. A user with no `nextRunAt` yet has never been
+ * scheduled and is due straight away. Served by the `nextRunAt` index, so a
+ * tick only reads the users it is about to process.
+ */
+export const dueUsersFilter = (now: Date) => ({
+    'schedule.enabled': {$ne: false},
+    $or: [{nextRunAt: {$lte: now}}, {nextRunAt: null}],
+});
@@ -0,0 +1,34 @@
+import mongoose, {Schema, Document, Model} from 'mongoose';
+
+interface ISchedulerState extends Document<string> {
+    _id: string;
+    paused: boolean;
+    pausedAt?: Date;
+    resumedAt?: Date;
+}
+
+const SchedulerStateSchema: Schema<ISchedulerState> = new mongoose.Schema<ISchedulerState>({
+    _id: {type: String, required: true},
+    paused: {type: Boolean, required: true, default: false},
+    pausedAt: {type: Date},
+    resumedAt: {type: Date},
+});
+
+const SchedulerStateModel: Model<ISchedulerState> = mongoose.model<ISchedulerState>('SchedulerState', SchedulerStateSchema);
+
+/**
+ * Pausing is stored in Mongo rather than in the cron job, so it holds on every
+ * instance and survives restarts and redeploys.
+ */
+export const setSchedulerPaused = async (name: string, paused: boolean) => {
+    const now = new Date();
+    await SchedulerStateModel.updateOne(
+        {_id: name},
+        {$set: paused ? {paused, pausedAt: now} : {paused, resumedAt: now}},
+        {upsert: true}
+    );
+};
+
+export const isSchedulerPaused = async (name: string): Promise<boolean> => {
+    return !!(await SchedulerStateModel.exists({_id: name, paused: true}));
+};
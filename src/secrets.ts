@@ -0,0 +1,115 @@
+import crypto from "crypto";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+const PREFIX = 'enc:v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+interface EncryptionKey {
+    id: string;
+    key: Buffer;
+}
+
+let cachedKeys: EncryptionKey[] | undefined;
+
+// For local development only: stores OAuth tokens unencrypted when no key is configured.
+const allowPlaintext = () => process.env.ALLOW_PLAINTEXT_TOKENS === 'true';
+
+/**
+ * Reads TOKEN_ENCRYPTION_KEYS, a comma separated list of `<id>:<base64 32-byte key>`.
+ * The first key encrypts; the rest are only used to decrypt rows written before a rotation.
+ */
+const getKeys = (): EncryptionKey[] => {
+    if (cachedKeys) return cachedKeys;
+    cachedKeys = (process.env.TOKEN_ENCRYPTION_KEYS || '')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const separator = entry.indexOf(':');
+            const id = entry.slice(0, separator);
+            const key = Buffer.from(entry.slice(separator + 1), 'base64');
+            if (separator <= 0 || key.length !== 32) {
+                throw new Error('TOKEN_ENCRYPTION_KEYS entries must look like "<id>:<base64 32-byte key>"');
+            }
+            return {id, key};
+        });
+    return cachedKeys;
+};
+
+export const isEncrypted = (value: unknown): value is string =>
+    typeof value === 'string' && value.startsWith(`${PREFIX}:`);
+
+const keyIdOf = (value: string) => value.split(':')[2];
+
+export const isEncryptedWithActiveKey = (value: unknown): boolean => {
+    const [active] = getKeys();
+    return isEncrypted(value) && !!active && keyIdOf(value) === active.id;
+};
+
+export const decryptSecret = (value?: string | null): string | undefined | null => {
+    if (!isEncrypted(value)) return value;
+
+    const [, , keyId, iv, tag, data] = value.split(':');
+    const entry = getKeys().find(k => k.id === keyId);
+    if (!entry) {
+        throw new Error(`No encryption key with id "${keyId}" is configured`);
+    }
+    const decipher = crypto.createDecipheriv(ALGORITHM, entry.key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+};
+
+/** Encrypts with the active key. Values encrypted with an older key are re-encrypted. */
+export const encryptSecret = (value?: string | null): string | undefined | null => {
+    if (!value || isEncryptedWithActiveKey(value)) return value;
+
+    const [active] = getKeys();
+    if (!active) {
+        if (allowPlaintext()) return value;
+        throw new Error('TOKEN_ENCRYPTION_KEYS is not set, refusing to store OAuth tokens in plaintext');
+    }
+
+    const plaintext = decryptSecret(value) as string;
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, active.key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return [PREFIX, active.id, iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+};
+
+/**
+ * Checked at startup, so a missing key stops the server instead of tokens
+ * being written in plaintext. Returns true when plaintext was explicitly allowed.
+ */
+export const checkEncryptionConfig = (): boolean => {
+    if (getKeys().length > 0) return false;
+    if (allowPlaintext()) return true;
+    throw new Error('TOKEN_ENCRYPTION_KEYS is not set; set ALLOW_PLAINTEXT_TOKENS=true to run without it in development');
+};
+
+// Field names ending like a credential; counts such as `promptTokens` and paths such as `POST /token` are left alone.
+const SECRET_KEY_PATTERN = /^[\w-]*(token|password|secret|secret[-_]?key|authorization|api[-_]?key|cookie)$/i;
+const SECRET_VALUE_PATTERNS: [RegExp, string][] = [
+    [/(Bearer\s+)[\w.~+\/-]+=*/gi, '$1[REDACTED]'],
+    [/("?(?:access|refresh|id)_token"?\s*[:=]\s*"?)[^"&\s,}]+/gi, '$1[REDACTED]'],
+];
+
+/** Deep copy with secret fields masked and bearer tokens cut out of strings, for logs and API responses. */
+export const redactSecrets = (value: any): any => {
+    if (typeof value === 'string') {
+        return SECRET_VALUE_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+    }
+    if (Array.isArray(value)) return value.map(redactSecrets);
+    if (!value || typeof value !== 'object' || value instanceof Date) return value;
+    if (value instanceof Map) return redactSecrets(Object.fromEntries(value));
+    if (value._bsontype) return String(value);
+    if (typeof value.toObject === 'function') return redactSecrets(value.toObject());
+
+    const copy: { [key: string]: any } = {};
+    for (const [key, field] of Object.entries(value)) {
+        copy[key] = SECRET_KEY_PATTERN.test(key) && field ? '[REDACTED]' : redactSecrets(field);
+    }
+    return copy;
+};
@@ -1,33 +1,85 @@
 import express from "express";
 import dotenv from "dotenv";
 import mongoose from "mongoose";
-import {job1} from "./cron_job";
+import {autoApplyWorker, getSchedulerState, job1} from "./cron_job";
+import {adminRouter} from "./admin_api";
+import {draftJob} from "./draft_job";
+import {negotiationJob} from "./negotiation_job";
+import {logger} from "./logger";
+import {metricsRegistry} from "./metrics";
+import {checkEncryptionConfig} from "./secrets";
+
+try {
+    if (checkEncryptionConfig()) logger.warn('ALLOW_PLAINTEXT_TOKENS is set, OAuth tokens are stored in plaintext');
+} catch (error) {
+    logger.error('Token encryption is not configured', {error});
+    process.exit(1);
+}
 
 const app = express();
 const port = 8000;
 
+// The scheduler ticks every minute; a few missed ticks mean the event loop or the cron job is stuck.
+const SCHEDULER_STALE_MS = Number(process.env.SCHEDULER_STALE_MS) || 3 * 60 * 1000;
+
+const startedAt = Date.now();
+
+const MONGO_STATES: { [state: number]: string } = {0: 'disconnected', 1: 'connected', 2: 'connecting', 3: 'disconnecting'};
+
 app.get("/", (req, res) => {
     res.send("Hello, World!");
 });
 
-console.log("Cron job started")
-console.log("Cron job 1 started")
+// Liveness: the event loop answers and the scheduler is still ticking. It ticks while paused too, so a pause never fails the probe.
+app.get("/healthz", (req, res) => {
+    const scheduler = getSchedulerState();
+    const tickExpectedSince = scheduler.lastTickAt?.getTime() ?? startedAt;
+    const healthy = !scheduler.running || Date.now() - tickExpectedSince < SCHEDULER_STALE_MS;
+    res.status(healthy ? 200 : 503).json({
+        status: healthy ? 'ok' : 'unhealthy',
+        scheduler: {paused: scheduler.paused, lastTickAt: scheduler.lastTickAt || null}
+    });
+});
+
+// Readiness: Mongo is connected and the workers are claiming jobs, so the instance can take traffic.
+// A paused schedule keeps the instance in rotation so the admin API can resume it.
+app.get("/readyz", (req, res) => {
+    const scheduler = getSchedulerState();
+    const mongo = MONGO_STATES[mongoose.connection.readyState] || 'unknown';
+    const ready = mongo === 'connected' && scheduler.workerRunning;
+    res.status(ready ? 200 : 503).json({
+        status: ready ? 'ready' : 'not ready',
+        mongo,
+        scheduler: {
+            paused: scheduler.paused,
+            lastTickAt: scheduler.lastTickAt || null,
+            workerRunning: scheduler.workerRunning,
+            runInProgress: scheduler.runInProgress
+        }
+    });
+});
+
+app.get("/metrics", async (req, res) => {
+    res.set('Content-Type', metricsRegistry.contentType);
+    res.end(await metricsRegistry.metrics());
+});
+
+app.use("/admin", adminRouter);
+
 job1.start();
-// console.log("Cron job 2 started")
-// job2.start();
-// console.log("Cron job 3 started")
-// job3.start();
-// console.log("Cron job 4 started")
-// job4.start();
+draftJob.start();
+negotiationJob.start();
+autoApplyWorker.start();
+logger.info('Scheduler, draft sending, negotiation sync and auto apply workers started');
 
 dotenv.config();
 
 const connectDB = async () => {
     try {
         await mongoose.connect(process.env.MONGO_DB_URI || 'http://localhost:8080', {dbName: process.env.MONGO_DATABASE});
-        console.log('MongoDB connected successfully');
+        logger.info('MongoDB connected successfully');
     } catch (error) {
-        console.error('MongoDB connection error:', error);
+        logger.error('MongoDB connection error', {error});
         process.exit(1);
     }
 };
@@ -35,5 +87,13 @@ const connectDB = async () => {
 connectDB()
 
 app.listen(port, () => {
-    console.log(`Server is running on http://localhost:${port}`);
-});
\ No newline at end of file
+    logger.info('Server is running', {port});
+});
+
+// Jobs still in hand when the process is killed become visible again after their timeout and are picked up by another worker.
+process.once('SIGTERM', async () => {
+    logger.info('Stopping auto apply workers');
+    job1.stop();
+    await autoApplyWorker.stop();
+    process.exit(0);
+});
@@ -0,0 +1,123 @@
+import {IExclusionRules, IPositionFilters, ISalaryConstraint} from "./models";
+import {ProviderVacancy} from "./providers";
+import {DiscardedEmployers} from "./dedup";
+import {toHHCurrency} from "./position_keywords";
+
+export interface FilterResult {
+    matches: boolean;
+    reason?: string;
+}
+
+const normalize = (value?: string | null) => (value || '').toLowerCase().trim();
+
+const vacancyText = (vacancy: ProviderVacancy) => normalize([
+    vacancy.name,
+    vacancy.snippet?.requirement,
+    vacancy.snippet?.responsibility
+].filter(Boolean).join(' '));
+
+/** An employer entry matches the vacancy's employer by id or by name. */
+const matchesEmployer = (entry: string, vacancy: ProviderVacancy) => {
+    const normalized = normalize(entry);
+    return !!normalized && (normalized === normalize(vacancy.employer?.name) || normalized === String(vacancy.employer?.id || ''));
+};
+
+/**
+ * Explicit filters win; the salary the user wrote in the position text only
+ * fills the gaps. The currency is turned into HH's code, which is also what
+ * HH vacancies carry, so `RUB` in a filter still matches `RUR` salaries.
+ */
+export const withSalaryConstraint = (filters: IPositionFilters = {}, constraint?: ISalaryConstraint): IPositionFilters => {
+    const currency = filters.currency ?? constraint?.currency;
+    return {
+        ...filters,
+        salaryFrom: filters.salaryFrom ?? constraint?.min,
+        salaryTo: filters.salaryTo ?? constraint?.max,
+        currency: toHHCurrency(currency) || currency
+    };
+};
+
+/**
+ * Enforces the position filters on a fetched vacancy. Boards do not always
+ * honour every search parameter, and some boards do not support them at all.
+ * A filter is only applied when the vacancy carries the field it checks.
+ */
+export const matchesPositionFilters = (vacancy: ProviderVacancy, filters?: IPositionFilters): FilterResult => {
+    if (!filters) return {matches: true};
+
+    // Areas are left to the board's search: HH searches a region or country including its
+    // cities but tags each vacancy with the city, so an id comparison here would drop them all.
+
+    if (filters.salaryFrom && vacancy.salary) {
+        const sameCurrency = !filters.currency || !vacancy.salary.currency || filters.currency === vacancy.salary.currency;
+        const upperBound = vacancy.salary.to ?? vacancy.salary.from;
+        if (sameCurrency && upperBound != null && upperBound < filters.salaryFrom) {
+            return {matches: false, reason: `Salary ${upperBound} is below ${filters.salaryFrom}`};
+        }
+    }
+
+    if (filters.salaryTo && vacancy.salary) {
+        const sameCurrency = !filters.currency || !vacancy.salary.currency || filters.currency === vacancy.salary.currency;
+        const lowerBound = vacancy.salary.from ?? vacancy.salary.to;
+        if (sameCurrency && lowerBound != null && lowerBound > filters.salaryTo) {
+            return {matches: false, reason: `Salary ${lowerBound} is above ${filters.salaryTo}`};
+        }
+    }
+
+    if (filters.experience && vacancy.experience?.id && vacancy.experience.id !== filters.experience) {
+        return {matches: false, reason: `Experience ${vacancy.experience.id} does not match ${filters.experience}`};
+    }
+
+    if (filters.employment?.length && vacancy.employment?.id && !filters.employment.includes(vacancy.employment.id)) {
+        return {matches: false, reason: `Employment type ${vacancy.employment.id} is not allowed`};
+    }
+
+    if (filters.schedule?.length && vacancy.schedule?.id && !filters.schedule.includes(vacancy.schedule.id)) {
+        return {matches: false, reason: `Schedule ${vacancy.schedule.id} is not allowed`};
+    }
+
+    const excludedEmployer = (filters.excludedEmployers || []).find(employer => matchesEmployer(employer, vacancy));
+    if (excludedEmployer) {
+        return {matches: false, reason: `Employer ${vacancy.employer.name} is excluded`};
+    }
+
+    const text = vacancyText(vacancy);
+    const excludedKeyword = (filters.excludedKeywords || []).find(keyword => normalize(keyword) && text.includes(normalize(keyword)));
+    if (excludedKeyword) {
+        return {matches: false, reason: `Vacancy mentions excluded keyword "${excludedKeyword}"`};
+    }
+
+    return {matches: true};
+};
+
+/**
+ * Applies the user's own exclusions, which hold across all positions. A
+ * blocked employer is always skipped; an allowed one is never skipped by a
+ * keyword or by an exclusion learned from discarded applications.
+ */
+export const matchesExclusionRules = (vacancy: ProviderVacancy, rules: IExclusionRules = {}, discarded?: DiscardedEmployers): FilterResult => {
+    if ((rules.blockedEmployers || []).some(employer => matchesEmployer(employer, vacancy))) {
+        return {matches: false, reason: `Employer ${vacancy.employer.name} is blocked`};
+    }
+    if ((rules.allowedEmployers || []).some(employer => matchesEmployer(employer, vacancy))) {
+        return {matches: true};
+    }
+    if (rules.allowedOnly) {
+        return {matches: false, reason: `Employer ${vacancy.employer.name} is not on the allowlist`};
+    }
+
+    if (discarded && rules.learnFromDiscards !== false) {
+        const id = vacancy.employer?.id ? String(vacancy.employer.id) : undefined;
+        if ((id && discarded.ids.has(id)) || discarded.names.has(normalize(vacancy.employer?.name))) {
+            return {matches: false, reason: `Employer ${vacancy.employer.name} discarded an earlier application`};
+        }
+    }
+
+    const text = `${vacancyText(vacancy)} ${normalize(vacancy.employer?.name)}`;
+    const excludedKeyword = (rules.excludedKeywords || []).find(keyword => normalize(keyword) && text.includes(normalize(keyword)));
+    if (excludedKeyword) {
+        return {matches: false, reason: `Vacancy mentions excluded keyword "${excludedKeyword}"`};
+    }
+
+    return {matches: true};
+};